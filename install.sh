@@ -64,7 +64,7 @@ check_process_health() {
   
   # Try to check if MCP Host is responding (if curl is available)
   if command -v curl &> /dev/null; then
-    if curl -s --max-time 2 --connect-timeout 1 http://127.0.0.1:9666/health >/dev/null 2>&1; then
+    if curl -sf --max-time 2 --connect-timeout 1 http://127.0.0.1:9666/healthz >/dev/null 2>&1; then
       return 0  # Process is healthy
     fi
   fi
@@ -0,0 +1,96 @@
+/**
+ * Bearer token authentication for the MCP HTTP endpoints
+ *
+ * The token is generated on first start and persisted under ~/.nanobrowser/ so that
+ * clients only need to be configured once. Only processes able to read that file
+ * (the same user) can drive the browser through the MCP server.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { NextFunction, Request, Response } from 'express';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('auth');
+
+/**
+ * Default location of the persisted auth token
+ */
+export const DEFAULT_AUTH_TOKEN_PATH = path.join(os.homedir(), '.nanobrowser', 'auth-token');
+
+/**
+ * Reads the auth token from disk, generating and storing a new one if none exists
+ * @param tokenPath Path of the token file
+ * @returns The auth token
+ */
+export function loadOrCreateAuthToken(tokenPath: string = DEFAULT_AUTH_TOKEN_PATH): string {
+  if (fs.existsSync(tokenPath)) {
+    const existingToken = fs.readFileSync(tokenPath, 'utf8').trim();
+    if (existingToken) {
+      return existingToken;
+    }
+
+    logger.warn(`Auth token file ${tokenPath} is empty, generating a new token`);
+    fs.unlinkSync(tokenPath);
+  }
+
+  const dir = path.dirname(tokenPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const token = randomBytes(32).toString('hex');
+
+  try {
+    // 'wx' fails if another host instance created the file in the meantime
+    fs.writeFileSync(tokenPath, token, { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+    logger.info(`Generated new auth token at ${tokenPath}`);
+    return token;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return fs.readFileSync(tokenPath, 'utf8').trim();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Compares two tokens in constant time
+ */
+function tokensMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const actualBuffer = Buffer.from(actual, 'utf8');
+
+  if (expectedBuffer.length !== actualBuffer.length) {
+    return false;
+  }
+
+  return timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+/**
+ * Creates an Express middleware that requires `Authorization: Bearer <token>`
+ * @param token The expected auth token
+ * @returns The middleware
+ */
+export function createAuthMiddleware(token: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization;
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+
+    if (!match || !tokensMatch(token, match[1].trim())) {
+      logger.warn(`Rejected unauthenticated ${req.method} request to ${req.path}`);
+      res.setHeader('WWW-Authenticate', 'Bearer realm="nanobrowser-mcp"');
+      res.status(401).json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: 'Unauthorized' },
+        id: null,
+      });
+      return;
+    }
+
+    next();
+  };
+}
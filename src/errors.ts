@@ -0,0 +1,132 @@
+/**
+ * Errors of native RPC requests and their mapping to MCP tool results
+ *
+ * Every failed `rpcRequest` rejects with an RpcError carrying one of the codes below,
+ * whether the failure happened in the host (timeout, cancellation, lost connection) or
+ * was reported by the extension in the `error` of its `rpc_response`.
+ */
+
+import { type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { type ZodError } from 'zod';
+
+/**
+ * Error codes of native RPC requests
+ *
+ * The JSON-RPC codes are shared with the extension; the others are in the range
+ * JSON-RPC reserves for implementation-defined server errors.
+ */
+export const RpcErrorCode = {
+  /** The message is not a valid request */
+  INVALID_REQUEST: -32600,
+  /** The receiver does not implement the method */
+  METHOD_NOT_FOUND: -32601,
+  /** The request params were invalid */
+  INVALID_PARAMS: -32602,
+  /** Unexpected failure while handling the request */
+  INTERNAL_ERROR: -32603,
+  /** No response arrived before the request timed out */
+  TIMEOUT: -32010,
+  /** The request was cancelled by the caller */
+  CANCELLED: -32011,
+  /** The extension is not connected */
+  NOT_CONNECTED: -32012,
+  /** The extension ran the task but it failed */
+  TASK_FAILED: -32020,
+  /** The extension refused the request, e.g. because the site is not allowed */
+  POLICY_DENIED: -32021,
+} as const;
+
+export type RpcErrorCode = (typeof RpcErrorCode)[keyof typeof RpcErrorCode];
+
+const ERROR_CODE_NAMES = new Map<number, string>(
+  Object.entries(RpcErrorCode).map(([name, code]) => [code, name.toLowerCase()]),
+);
+
+/**
+ * Error raised by a native RPC request
+ */
+export class RpcError extends Error {
+  /**
+   * One of RpcErrorCode, or a code the extension defined itself
+   */
+  public readonly code: number;
+
+  /**
+   * Additional information sent by the extension
+   */
+  public readonly data?: unknown;
+
+  /**
+   * Creates a new RPC error
+   * @param code The error code
+   * @param message Description of the failure
+   * @param data Additional information about the failure
+   */
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+    this.data = data;
+  }
+
+  /**
+   * Readable name of the error code, e.g. `timeout`, or `error <code>` for unknown codes
+   */
+  public get codeName(): string {
+    return ERROR_CODE_NAMES.get(this.code) ?? `error ${this.code}`;
+  }
+
+  /**
+   * Creates an RPC error from the `error` of an `rpc_response`
+   * @param error The error sent by the extension
+   * @param method The method that was called
+   */
+  public static fromResponse(error: unknown, method: string): RpcError {
+    if (error && typeof error === 'object') {
+      const { code, message, data } = error as { code?: unknown; message?: unknown; data?: unknown };
+      return new RpcError(
+        typeof code === 'number' ? code : RpcErrorCode.INTERNAL_ERROR,
+        typeof message === 'string' ? message : `${method} failed`,
+        data,
+      );
+    }
+
+    return new RpcError(RpcErrorCode.INTERNAL_ERROR, typeof error === 'string' ? error : `${method} failed`);
+  }
+
+  /**
+   * Creates an invalid params error from failed params validation
+   * @param error The validation error
+   */
+  public static fromZodError(error: ZodError): RpcError {
+    const issues = error.issues.map(issue => `${issue.path.join('.') || 'params'}: ${issue.message}`);
+    return new RpcError(RpcErrorCode.INVALID_PARAMS, `Invalid params: ${issues.join('; ')}`, error.issues);
+  }
+
+  /**
+   * Wraps any error thrown while making or handling a request in an RpcError
+   * @param error The error
+   */
+  public static from(error: unknown): RpcError {
+    if (error instanceof RpcError) {
+      return error;
+    }
+
+    return new RpcError(RpcErrorCode.INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Builds the MCP result of a tool call that failed
+ * @param tool The tool name
+ * @param error The error that made the call fail
+ * @returns A result flagged with isError, naming the error code
+ */
+export function toolErrorResult(tool: string, error: unknown): CallToolResult {
+  const rpcError = RpcError.from(error);
+
+  return {
+    content: [{ type: 'text', text: `${tool} failed (${rpcError.codeName}): ${rpcError.message}` }],
+    isError: true,
+  };
+}
@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { type EventId, type EventStore, type StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * In-memory event store used by the Streamable HTTP transport to support resumable streams
+ *
+ * Clients that lose their SSE stream can reconnect with a `Last-Event-ID` header and
+ * receive the messages they missed. Only the most recent events are retained, by count
+ * and by total size, so a long-lived session cannot grow the store without bound even
+ * when tool results are large (e.g. screenshots).
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: Map<EventId, { streamId: StreamId; message: JSONRPCMessage; size: number }> = new Map();
+  private maxEvents: number;
+  private maxBytes: number;
+  private totalBytes = 0;
+
+  /**
+   * Creates a new event store
+   * @param maxEvents Maximum number of events kept for replay
+   * @param maxBytes Maximum total size of the serialized events kept for replay; the most
+   *   recent event is always kept, even when it is larger on its own
+   */
+  constructor(maxEvents: number = 1000, maxBytes: number = 16 * 1024 * 1024) {
+    this.maxEvents = maxEvents;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Stores an event and returns its generated ID
+   * @param streamId The stream the event belongs to
+   * @param message The JSON-RPC message to store
+   */
+  public async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = randomUUID();
+    const size = Buffer.byteLength(JSON.stringify(message), 'utf8');
+    this.events.set(eventId, { streamId, message, size });
+    this.totalBytes += size;
+
+    // Maps iterate in insertion order, so the first key is always the oldest event
+    while (this.events.size > this.maxEvents || (this.totalBytes > this.maxBytes && this.events.size > 1)) {
+      const [oldest, { size: oldestSize }] = this.events.entries().next().value as [EventId, { size: number }];
+      this.events.delete(oldest);
+      this.totalBytes -= oldestSize;
+    }
+
+    return eventId;
+  }
+
+  /**
+   * Gets the number and total size of the stored events
+   */
+  public getUsage(): { events: number; bytes: number } {
+    return { events: this.events.size, bytes: this.totalBytes };
+  }
+
+  /**
+   * Replays all events of the same stream that were stored after the given event
+   * @param lastEventId The last event the client received
+   * @param send Callback used to deliver each replayed event
+   * @returns The ID of the stream being resumed, or an empty string if unknown
+   */
+  public async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return '';
+    }
+
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+
+      if (found && streamId === lastEvent.streamId) {
+        await send(eventId, message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * DNS-rebinding protection for the MCP HTTP endpoints
+ *
+ * Binding to 127.0.0.1 does not stop a web page from reaching the server once an
+ * attacker-controlled domain resolves to the loopback address. Such requests still
+ * carry the attacker's Host header (and the page's Origin), so both are checked
+ * against an allowlist before any MCP traffic is handled.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('host-validation');
+
+/**
+ * Allowlists applied to incoming requests
+ */
+export interface HostValidationOptions {
+  /**
+   * Accepted Host header values, either a bare hostname (any port) or `hostname:port`
+   */
+  allowedHosts: string[];
+
+  /**
+   * Accepted Origin header values; requests without an Origin header are not browser
+   * requests and are always accepted
+   */
+  allowedOrigins: string[];
+}
+
+/**
+ * Default allowlists for a server listening on the loopback interface
+ * @param port The TCP port the server listens on, if any
+ * @param protocol The protocol served on the port
+ */
+export function getDefaultHostValidationOptions(
+  port?: number,
+  protocol: 'http' | 'https' = 'http',
+): HostValidationOptions {
+  return {
+    allowedHosts: ['127.0.0.1', 'localhost', '[::1]'],
+    allowedOrigins:
+      port === undefined
+        ? []
+        : [`${protocol}://127.0.0.1:${port}`, `${protocol}://localhost:${port}`, `${protocol}://[::1]:${port}`],
+  };
+}
+
+/**
+ * Strips the port from a Host header value, keeping IPv6 brackets
+ */
+function getHostname(host: string): string {
+  if (host.startsWith('[')) {
+    const end = host.indexOf(']');
+    return end === -1 ? host : host.substring(0, end + 1);
+  }
+
+  const colon = host.indexOf(':');
+  return colon === -1 ? host : host.substring(0, colon);
+}
+
+/**
+ * Creates an Express middleware that rejects requests with an unexpected Host or Origin
+ * @param options The allowlists to enforce
+ * @returns The middleware
+ */
+export function createHostValidationMiddleware(options: HostValidationOptions) {
+  const allowedHosts = new Set(options.allowedHosts.map(host => host.toLowerCase()));
+  const allowedOrigins = new Set(options.allowedOrigins.map(origin => origin.toLowerCase()));
+
+  const reject = (res: Response, message: string) => {
+    res.status(403).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    });
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const host = req.headers.host?.toLowerCase();
+
+    if (!host || !(allowedHosts.has(host) || allowedHosts.has(getHostname(host)))) {
+      logger.warn(`Rejected ${req.method} request to ${req.path} with invalid Host header: ${host}`);
+      reject(res, 'Forbidden: invalid Host header');
+      return;
+    }
+
+    const origin = req.headers.origin?.toLowerCase();
+
+    if (origin !== undefined && !allowedOrigins.has(origin)) {
+      logger.warn(`Rejected ${req.method} request to ${req.path} with invalid Origin header: ${origin}`);
+      reject(res, 'Forbidden: invalid Origin header');
+      return;
+    }
+
+    next();
+  };
+}
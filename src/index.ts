@@ -1,12 +1,36 @@
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { ZodRawShape } from 'zod';
+import { DEFAULT_AUTH_TOKEN_PATH, loadOrCreateAuthToken } from './auth.js';
 import { createLogger } from './logger.js';
 import { McpServerManager } from './mcp-server.js';
+import { ErrorMessage } from './message-schemas.js';
 import { NativeMessaging } from './messaging.js';
+import {
+  assertCompatibleProtocolVersion,
+  ExtensionHandshake,
+  LEGACY_EXTENSION_METHODS,
+  PROTOCOL_VERSION,
+} from './protocol.js';
 import { CurrentStateResource } from './resources/index.js';
-import { NavigateToTool, RunTaskTool } from './tools/index.js';
-import { RpcRequest, RpcResponse } from './types.js';
+import {
+  ClickElementTool,
+  CloseTabTool,
+  FillFormTool,
+  GoBackTool,
+  GoForwardTool,
+  ListTabsTool,
+  NavigateToTool,
+  OpenTabTool,
+  ReloadPageTool,
+  RunTaskTool,
+  SwitchTabTool,
+  TakeScreenshotTool,
+  TypeTextTool,
+} from './tools/index.js';
+import { replayAgainstHost } from './traffic-replayer.js';
+import { RpcRequest, RpcResponse, Tool } from './types.js';
 
 // Create a logger instance for the main module
 const logger = createLogger('main');
@@ -18,6 +42,30 @@ const HOST_INFO = {
   runMode: process.env.RUN_MODE || 'stdio',
 };
 
+// Auth token used by MCP clients: MCP_AUTH_TOKEN overrides the persisted token
+const authEnabled = process.env.MCP_AUTH_ENABLED !== 'false';
+const authTokenPath = process.env.MCP_AUTH_TOKEN_FILE || DEFAULT_AUTH_TOKEN_PATH;
+
+function getAuthToken(): string {
+  return process.env.MCP_AUTH_TOKEN || loadOrCreateAuthToken(authTokenPath);
+}
+
+// CLI: `node index.js token` prints the auth token so clients can be configured
+if (process.argv[2] === 'token') {
+  process.stdout.write(`${getAuthToken()}\n`);
+  process.exit(0);
+}
+
+// CLI: `node index.js replay <recording>` starts a host driven by a recorded extension session
+if (process.argv[2] === 'replay') {
+  if (!process.argv[3]) {
+    process.stderr.write('Usage: node index.js replay <recording.jsonl>\n');
+    process.exit(2);
+  }
+
+  process.exit(await replayAgainstHost(process.argv[3], process.argv[1]));
+}
+
 // PID file management
 const nanobrowserDir = path.join(os.homedir(), '.nanobrowser');
 const pidFilePath = path.join(nanobrowserDir, 'mcp-host.pid');
@@ -108,19 +156,196 @@ const hostStatus = {
 
 logger.info(`Starting MCP Host in ${hostStatus.runMode} mode`);
 
+/**
+ * Parse a comma-separated environment variable into a list
+ */
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Parse an optional integer environment variable
+ */
+function parseOptionalInt(value: string | undefined): number | undefined {
+  return value ? parseInt(value, 10) : undefined;
+}
+
 // Auto-start port (use PORT env var or default to 3000)
 const mcpServerPort = process.env.PORT ? parseInt(process.env.PORT, 10) : 9666;
-const mcpServerManager = new McpServerManager({
-  port: mcpServerPort,
-  logLevel: 'info',
-});
+const tcpEnabled = process.env.MCP_TCP_ENABLED !== 'false';
+
+// Optional Unix domain socket, for clients that are not allowed to use TCP
+const socketEnabled = process.env.MCP_SOCKET_ENABLED === 'true';
+const socketPath = process.env.MCP_SOCKET_PATH || path.join(nanobrowserDir, 'mcp-host.sock');
+
+// Bind address and optional TLS for the TCP port
+const mcpServerHost = process.env.MCP_HOST || '127.0.0.1';
+const tlsCertPath = process.env.MCP_TLS_CERT;
+const tlsKeyPath = process.env.MCP_TLS_KEY;
+
+if (!!tlsCertPath !== !!tlsKeyPath) {
+  logger.error('MCP_TLS_CERT and MCP_TLS_KEY must be set together');
+  removePidFile();
+  process.exit(1);
+}
+
+let mcpServerManager: McpServerManager;
+try {
+  mcpServerManager = new McpServerManager({
+    port: tcpEnabled ? mcpServerPort : undefined,
+    host: mcpServerHost,
+    tls: tlsCertPath && tlsKeyPath ? { certPath: tlsCertPath, keyPath: tlsKeyPath } : undefined,
+    socketPath: socketEnabled ? socketPath : undefined,
+    logLevel: 'info',
+    enableStreamableHttp: process.env.MCP_STREAMABLE_HTTP_ENABLED !== 'false',
+    enableSse: process.env.MCP_SSE_ENABLED !== 'false',
+    authToken: authEnabled ? getAuthToken() : undefined,
+    allowedHosts: parseList(process.env.MCP_ALLOWED_HOSTS),
+    allowedOrigins: parseList(process.env.MCP_ALLOWED_ORIGINS),
+    sessionIdleTimeout: parseOptionalInt(process.env.MCP_SESSION_IDLE_TIMEOUT),
+    toolCallLimits: {
+      maxConcurrentCalls: parseOptionalInt(process.env.MCP_MAX_CONCURRENT_CALLS),
+      maxConcurrentCallsPerSession: parseOptionalInt(process.env.MCP_MAX_CONCURRENT_CALLS_PER_SESSION),
+      callsPerMinutePerTool: parseOptionalInt(process.env.MCP_TOOL_CALLS_PER_MINUTE),
+      callsPerMinutePerToolPerSession: parseOptionalInt(process.env.MCP_TOOL_CALLS_PER_MINUTE_PER_SESSION),
+    },
+  });
+} catch (error) {
+  // Invalid configuration, e.g. a non-loopback bind without authentication
+  logger.error(`Invalid MCP server configuration: ${error instanceof Error ? error.message : String(error)}`);
+  removePidFile();
+  process.exit(1);
+}
 
 // Initialize the native messaging handler
-const messaging = new NativeMessaging();
+const messaging = new NativeMessaging(process.stdin, process.stdout, {
+  maxOutboundQueueBytes: parseOptionalInt(process.env.MCP_NATIVE_MAX_QUEUE_BYTES),
+  recordFile: process.env.MCP_NATIVE_RECORD_FILE || undefined,
+});
+
+// Report host status on the /status endpoint
+mcpServerManager.setStatusProvider(() => ({
+  startTime: hostStatus.startTime,
+  lastPing: hostStatus.lastPing,
+  version: hostStatus.version,
+  runMode: hostStatus.runMode,
+  extensionConnected: messaging.isConnected(),
+  extensionConnectionState: messaging.getConnectionState(),
+  outboundQueue: messaging.getOutboundQueueDepth(),
+  pendingRpcRequests: messaging.getPendingRequestCount(),
+}));
+
+// Optionally exit once the extension is gone, giving in-flight MCP responses time to finish
+const disconnectGracePeriod = parseOptionalInt(process.env.MCP_EXIT_ON_DISCONNECT_DELAY);
+
+messaging.onConnectionStateChange(state => {
+  if (state !== 'disconnected') {
+    return;
+  }
+
+  if (disconnectGracePeriod === undefined) {
+    logger.warn('Extension disconnected; tool calls will fail until the host is restarted');
+    return;
+  }
+
+  logger.warn(`Extension disconnected; exiting in ${disconnectGracePeriod}ms`);
+  setTimeout(async () => {
+    if (mcpServerManager.isServerRunning()) {
+      await mcpServerManager.shutdown();
+    }
+
+    removePidFile();
+    process.exit(0);
+  }, disconnectGracePeriod);
+});
+
+const lowLevelToolsEnabled = process.env.LOW_LEVEL_TOOLS_ENABLED === 'true'
+
+/**
+ * Register a tool with the MCP server manager, hidden from MCP clients until the handshake enables it
+ * @param tool The tool
+ * @returns The tool
+ */
+function registerTool<Args extends ZodRawShape>(tool: Tool<Args>): Tool<Args> {
+  mcpServerManager.registerTool(tool);
+  return tool;
+}
+
+// Tool handlers must exist before MCP sessions connect, so every tool is registered at startup
+const tools = [
+  registerTool(new RunTaskTool(messaging)),
+  ...(lowLevelToolsEnabled
+    ? [
+        registerTool(new NavigateToTool(messaging)),
+        registerTool(new GoBackTool(messaging)),
+        registerTool(new GoForwardTool(messaging)),
+        registerTool(new ReloadPageTool(messaging)),
+        registerTool(new ClickElementTool(messaging)),
+        registerTool(new TypeTextTool(messaging)),
+        registerTool(new FillFormTool(messaging)),
+        registerTool(new TakeScreenshotTool(messaging)),
+        registerTool(new ListTabsTool(messaging)),
+        registerTool(new OpenTabTool(messaging)),
+        registerTool(new SwitchTabTool(messaging)),
+        registerTool(new CloseTabTool(messaging)),
+      ]
+    : []),
+];
+
+/**
+ * Check whether the extension implements every RPC method a tool calls
+ * @param tool The tool
+ * @param methods Methods implemented by the extension
+ * @returns True if the tool can be offered to MCP clients
+ */
+function isToolSupported(tool: Pick<Tool<ZodRawShape>, 'name' | 'rpcMethods'>, methods: Set<string>): boolean {
+  const missing = tool.rpcMethods.filter(method => !methods.has(method));
+
+  if (missing.length > 0) {
+    logger.info(`Not enabling tool ${tool.name}: extension does not implement ${missing.join(', ')}`);
+    return false;
+  }
+
+  return true;
+}
+
+let handshakeCompleted = false;
 
 // Register handlers
-messaging.registerHandler('init', async () => {
-  logger.info('mcp_host received init');
+messaging.registerHandler('init', async (data: ExtensionHandshake) => {
+  logger.info('mcp_host received init:', data);
+
+  if (handshakeCompleted) {
+    logger.warn('Ignoring repeated init message');
+    return;
+  }
+
+  let methods: Set<string>;
+
+  if (data.protocolVersion === undefined) {
+    // Extensions that predate the handshake only implement the methods the original tools need
+    logger.warn('Extension did not report a protocol version; assuming it predates the handshake');
+    methods = new Set(LEGACY_EXTENSION_METHODS);
+  } else {
+    // Reported back to the extension as an error message by NativeMessaging
+    assertCompatibleProtocolVersion(data.protocolVersion);
+    methods = new Set(Array.isArray(data.methods) ? data.methods : []);
+  }
+
+  handshakeCompleted = true;
+
+  const enabledTools = tools.filter(tool => isToolSupported(tool, methods)).map(tool => tool.name);
+  mcpServerManager.enableTools(enabledTools);
+  logger.info(`Enabled tools: ${enabledTools.join(', ') || 'none'}`);
+
+  messaging.sendMessage({
+    type: 'init_ack',
+    protocolVersion: PROTOCOL_VERSION,
+    tools: enabledTools,
+  });
 });
 
 messaging.registerHandler('shutdown', async () => {
@@ -133,12 +358,13 @@ messaging.registerHandler('shutdown', async () => {
   }
 });
 
-messaging.registerHandler('error', async (data: any): Promise<void> => {
+messaging.registerHandler('error', async (data: ErrorMessage): Promise<void> => {
   logger.error('mcp_host received error:', data);
 });
 
 messaging.registerRpcMethod('ping', async (req: RpcRequest): Promise<RpcResponse> => {
   logger.debug('received ping request:', req);
+  hostStatus.lastPing = Date.now();
 
   return {
     result: {
@@ -147,36 +373,33 @@ messaging.registerRpcMethod('ping', async (req: RpcRequest): Promise<RpcResponse
   };
 });
 
-const lowLevelToolsEnabled = process.env.LOW_LEVEL_TOOLS_ENABLED === 'true'
-
 // Register resources with the MCP server manager
 if (lowLevelToolsEnabled) {
   mcpServerManager.registerResource(new CurrentStateResource(messaging));
   logger.info(`Registered resources with MCP server`);
 }
 
-// Initialize tools with the messaging instance
-if (lowLevelToolsEnabled) {
-  mcpServerManager.registerTool(new NavigateToTool(messaging));
-}
-
-mcpServerManager.registerTool(new RunTaskTool(messaging));
-logger.info(`Registered tools with MCP server`);
-
 // Auto-start MCP Server when MCP Host starts
-logger.info(`Auto-starting MCP HTTP server on port ${mcpServerPort}`);
+const listenerDescription = [
+  tcpEnabled ? `${mcpServerHost}:${mcpServerPort}` : null,
+  socketEnabled ? `socket ${socketPath}` : null,
+]
+  .filter(Boolean)
+  .join(' and ');
+
+logger.info(`Auto-starting MCP HTTP server on ${listenerDescription}`);
 mcpServerManager
   .start()
   .then(result => {
     if (result) {
-      logger.info(`MCP HTTP server auto-started successfully on port ${mcpServerPort}`);
+      logger.info(`MCP HTTP server auto-started successfully on ${listenerDescription}`);
     } else {
       logger.error('Failed to auto-start MCP HTTP server: Server already running');
     }
   })
   .catch((error: Error & { code?: string }) => {
     if (error.code === 'EADDRINUSE') {
-      logger.error(`Exception during MCP HTTP server auto-start: Port ${mcpServerPort} is already in use`);
+      logger.error(`Exception during MCP HTTP server auto-start: ${listenerDescription} is already in use`);
     } else {
       logger.error('Exception during MCP HTTP server auto-start:', error);
     }
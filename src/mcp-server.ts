@@ -1,16 +1,87 @@
 import { ZodRawShape } from 'zod';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, type RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { type CallToolResult, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
 import express from 'express';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as path from 'path';
+import { createAuthMiddleware } from './auth.js';
+import { InMemoryEventStore } from './event-store.js';
+import { createHostValidationMiddleware, getDefaultHostValidationOptions } from './host-validation.js';
 import { createLogger } from './logger.js';
-import { type Resource, type Tool } from './types.js';
+import { metricsRegistry, toolCallDuration, toolCallsTotal } from './metrics.js';
+import { type ToolCallLimits, ToolCallLimiter } from './rate-limiter.js';
+import { type McpSessionInfo, type McpTransport, SessionRegistry } from './session-registry.js';
+import { type HostStatus, type Resource, type Tool } from './types.js';
 
 /**
  * Configuration for the MCP server
  */
 export interface McpServerConfig {
-  port: number;
+  /**
+   * TCP port to listen on; omit to listen only on the Unix domain socket
+   */
+  port?: number;
+
+  /**
+   * Address the TCP port is bound to (default: 127.0.0.1); non-loopback addresses require authToken
+   */
+  host?: string;
+
+  /**
+   * Certificate and private key (PEM files) used to serve HTTPS on the TCP port
+   */
+  tls?: {
+    certPath: string;
+    keyPath: string;
+  };
+
+  /**
+   * Unix domain socket path to listen on, accessible only to the current user
+   */
+  socketPath?: string;
+
   logLevel: string;
+
+  /**
+   * Serve the Streamable HTTP transport on /mcp (default: true)
+   */
+  enableStreamableHttp?: boolean;
+
+  /**
+   * Serve the legacy HTTP+SSE transport on GET /mcp and POST /messages (default: true)
+   */
+  enableSse?: boolean;
+
+  /**
+   * Bearer token required on /mcp and /messages; authentication is disabled when unset
+   */
+  authToken?: string;
+
+  /**
+   * Host header values accepted in addition to the loopback defaults
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Origin header values accepted in addition to the loopback defaults
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * Idle time in milliseconds after which a session is closed (default: 30 minutes, 0 disables)
+   */
+  sessionIdleTimeout?: number;
+
+  /**
+   * Global and per-session limits on tool calls; no limits are enforced by default
+   */
+  toolCallLimits?: ToolCallLimits;
 }
 
 /**
@@ -18,10 +89,15 @@ export interface McpServerConfig {
  */
 export class McpServerManager {
   private logger;
-  private httpServer: any = null;
-  private mcpServer: McpServer;
+  private httpServers: http.Server[] = [];
   private config: McpServerConfig;
   private registeredResources: Resource[] = [];
+  private registeredTools: Tool<any>[] = [];
+  private enabledTools: Set<string> = new Set();
+  private mcpServers: Map<McpServer, Map<string, RegisteredTool>> = new Map();
+  private sessions: SessionRegistry;
+  private toolCallLimiter: ToolCallLimiter;
+  private statusProvider: (() => HostStatus) | null = null;
   private isRunning: boolean = false;
 
   /**
@@ -32,51 +108,192 @@ export class McpServerManager {
     this.config = config;
     this.logger = createLogger('mcp-server');
 
-    // Create MCP server instance
-    this.mcpServer = new McpServer(
-      {
-        name: 'nanobrowser-mcp',
-        version: '1.0.0',
-      },
-      { capabilities: { logging: {} } },
-    );
+    // Exposing the browser beyond this machine without a token would let anyone on the network drive it
+    if (!isLoopbackHost(this.getBindHost()) && !config.authToken) {
+      throw new Error(`Refusing to bind to non-loopback address ${this.getBindHost()} without authentication`);
+    }
+
+    this.sessions = new SessionRegistry({ idleTimeout: config.sessionIdleTimeout ?? 30 * 60 * 1000 });
+    this.toolCallLimiter = new ToolCallLimiter(config.toolCallLimits ?? {});
 
     this.logger.info('MCP server manager initialized');
   }
 
   /**
    * Registers a resource with the MCP server
+   *
+   * The resource is applied to the MCP server instance of every session created afterwards.
    * @param resource The resource to register
    */
   public registerResource(resource: Resource) {
     this.logger.info(`Registering resource: ${resource.uri}`);
 
-    // Store the resource for listing
     this.registeredResources.push(resource);
 
-    // Register the resource with the MCP server
-    this.mcpServer.resource(resource.name, resource.uri, async () => {
-      try {
-        return await resource.read();
-      } catch (error) {
-        this.logger.error(`Error reading resource ${resource.uri}:`, error);
-        throw error;
-      }
-    });
-
     this.logger.debug(`Resource registered: ${resource.uri}`);
   }
 
   /**
    * Registers a tool with the MCP server
+   *
+   * The tool is applied to the MCP server instance of every session created afterwards,
+   * but hidden from clients until it is enabled with enableTools().
    * @param tool The tool to register
    */
   public registerTool<Args extends ZodRawShape>(tool: Tool<Args>) {
-    this.mcpServer.tool(tool.name, tool.description, tool.inputSchema, tool.execute);
+    // Enforce tool call limits and record call counts and latency around the tool's own callback
+    const callback = tool.execute as (...args: any[]) => CallToolResult | Promise<CallToolResult>;
+    const execute = async (...args: any[]): Promise<CallToolResult> => {
+      const sessionId: string | undefined = args[1]?.sessionId;
+      const admission = this.toolCallLimiter.acquire(tool.name, sessionId);
+
+      if (!admission.admitted) {
+        this.logger.warn(`Rejected ${tool.name} call from session ${sessionId}: ${admission.reason}`);
+        toolCallsTotal.inc({ tool: tool.name, status: 'rate_limited' });
+        return {
+          content: [{ type: 'text', text: `Rate limit exceeded: ${admission.reason}. Retry later.` }],
+          isError: true,
+        };
+      }
+
+      const endTimer = toolCallDuration.startTimer({ tool: tool.name });
+      let status = 'error';
+
+      try {
+        const result = await callback(...args);
+        status = result.isError ? 'error' : 'success';
+        return result;
+      } finally {
+        admission.release();
+        endTimer();
+        toolCallsTotal.inc({ tool: tool.name, status });
+      }
+    };
+
+    const registration: Tool<any> = {
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      rpcMethods: tool.rpcMethods,
+      execute,
+    };
+    this.registeredTools.push(registration);
 
     this.logger.debug(`Tool registered: ${tool.name}`);
   }
 
+  /**
+   * Offers registered tools to MCP clients
+   *
+   * Open sessions are sent a tools/list_changed notification, so clients that connected
+   * before the extension handshake pick up the tools without reconnecting.
+   * @param names Names of the tools to enable
+   */
+  public enableTools(names: string[]) {
+    for (const name of names) {
+      this.enabledTools.add(name);
+    }
+
+    for (const tools of this.mcpServers.values()) {
+      this.applyEnabledTools(tools);
+    }
+
+    this.logger.debug(`Tools enabled: ${names.join(', ')}`);
+  }
+
+  /**
+   * Sets the provider of host-level information reported on /status
+   * @param provider Function returning the current host status
+   */
+  public setStatusProvider(provider: () => HostStatus) {
+    this.statusProvider = provider;
+  }
+
+  /**
+   * Builds the report served on /status
+   * @returns Host, session and registration information
+   */
+  public getStatus() {
+    const host = this.statusProvider?.();
+
+    return {
+      status: 'ok',
+      ...host,
+      uptime: host ? Date.now() - host.startTime : undefined,
+      sessions: {
+        active: this.sessions.size,
+        list: this.sessions.list(),
+      },
+      tools: this.registeredTools.filter(tool => this.enabledTools.has(tool.name)).map(tool => tool.name),
+      resources: this.registeredResources.map(resource => resource.uri),
+    };
+  }
+
+  /**
+   * Creates the MCP server instance for a new session
+   *
+   * Each client gets its own server so that per-session protocol state (client
+   * capabilities, log level, pending requests) is never shared between clients.
+   * Every registered tool is added before the server connects, because tool handlers
+   * cannot be added to a connected server; tools that are not enabled yet are disabled.
+   * @returns A server with all registered tools and resources applied, and its tools by name
+   */
+  private createMcpServer(): { server: McpServer; tools: Map<string, RegisteredTool> } {
+    const server = new McpServer(
+      {
+        name: 'nanobrowser-mcp',
+        version: '1.0.0',
+      },
+      { capabilities: { logging: {} } },
+    );
+
+    for (const resource of this.registeredResources) {
+      server.resource(resource.name, resource.uri, async () => {
+        try {
+          return await resource.read();
+        } catch (error) {
+          this.logger.error(`Error reading resource ${resource.uri}:`, error);
+          throw error;
+        }
+      });
+    }
+
+    const tools = new Map<string, RegisteredTool>();
+    for (const tool of this.registeredTools) {
+      const registeredTool = server.tool(tool.name, tool.description, tool.inputSchema, tool.execute);
+      if (!this.enabledTools.has(tool.name)) {
+        registeredTool.disable();
+      }
+      tools.set(tool.name, registeredTool);
+    }
+
+    return { server, tools };
+  }
+
+  /**
+   * Keeps track of the MCP server of an established session until its transport closes
+   * @param server The connected server
+   * @param tools The server's tools by name
+   */
+  private addMcpServer(server: McpServer, tools: Map<string, RegisteredTool>) {
+    this.mcpServers.set(server, tools);
+
+    // Catch up with tools enabled while the session was being established
+    this.applyEnabledTools(tools);
+  }
+
+  /**
+   * Enables the tools of one MCP server that have been enabled since it was created
+   * @param tools The server's tools by name
+   */
+  private applyEnabledTools(tools: Map<string, RegisteredTool>) {
+    for (const [name, registeredTool] of tools) {
+      if (this.enabledTools.has(name) && !registeredTool.enabled) {
+        registeredTool.enable();
+      }
+    }
+  }
+
   /**
    * Starts the MCP server
    * @returns A promise that resolves when the server is started
@@ -91,8 +308,9 @@ export class McpServerManager {
       // Start the HTTP server
       await this.startHttpServer();
 
+      this.sessions.startEviction();
       this.isRunning = true;
-      this.logger.info(`MCP server started on port ${this.config.port}`);
+      this.logger.info(`MCP server started on ${this.describeListeners()}`);
       return true;
     } catch (error) {
       this.logger.error('Failed to start MCP server:', error);
@@ -101,104 +319,476 @@ export class McpServerManager {
   }
 
   /**
-   * Starts the HTTP server with SSEServerTransport
+   * Starts the HTTP server with the enabled MCP transports
    */
   private async startHttpServer() {
     // Create Express application
     const app = express();
 
-    // Initialize transports map to store session connections
-    const transports: { [sessionId: string]: SSEServerTransport } = {};
+    // Reject DNS-rebinding attempts before anything else sees the request
+    const hostValidation = getDefaultHostValidationOptions(this.config.port, this.config.tls ? 'https' : 'http');
+    const bindHost = this.getBindHost();
+    const isWildcardBind = bindHost === '0.0.0.0' || bindHost === '::';
+    app.use(
+      createHostValidationMiddleware({
+        allowedHosts: [
+          ...hostValidation.allowedHosts,
+          ...(isWildcardBind ? [] : [bindHost.includes(':') ? `[${bindHost}]` : bindHost]),
+          ...(this.config.allowedHosts ?? []),
+        ],
+        allowedOrigins: [...hostValidation.allowedOrigins, ...(this.config.allowedOrigins ?? [])],
+      }),
+    );
+
+    // Liveness probe for supervisors and install.sh, intentionally unauthenticated
+    app.get('/healthz', (req, res) => {
+      res.json({ status: 'ok' });
+    });
+
+    // Require the bearer token before any MCP traffic is parsed
+    if (this.config.authToken) {
+      app.use(['/mcp', '/messages', '/status', '/metrics', '/sessions'], createAuthMiddleware(this.config.authToken));
+    } else {
+      this.logger.warn('Authentication is disabled for the MCP HTTP endpoints');
+    }
 
     // Set up HTTP routes for MCP communication
     app.use(express.json());
 
-    // SSE endpoint for establishing the stream
-    app.get('/mcp', async (req, res) => {
-      this.logger.info('Received GET request to /mcp (establishing SSE stream)');
+    const enableStreamableHttp = this.config.enableStreamableHttp ?? true;
+    const enableSse = this.config.enableSse ?? true;
 
-      try {
-        // Create a new SSE transport for the client
-        // The endpoint for POST messages is '/messages'
-        const transport = new SSEServerTransport('/messages', res);
-
-        // Store the transport by session ID
-        const sessionId = transport.sessionId;
-        transports[sessionId] = transport;
-
-        // Set up onclose handler to clean up transport when closed
-        transport.onclose = () => {
-          this.logger.debug(`SSE transport closed for session ${sessionId}`);
-          delete transports[sessionId];
-        };
+    if (!enableStreamableHttp && !enableSse) {
+      throw new Error('At least one MCP transport must be enabled');
+    }
 
-        // Connect the transport to the MCP server
-        await this.mcpServer.connect(transport);
+    // Both transports share the /mcp path: a GET without a session header is a legacy
+    // SSE client opening its stream, everything else belongs to Streamable HTTP.
+    app.all('/mcp', async (req, res, next) => {
+      const isLegacySseRequest = req.method === 'GET' && !req.headers['mcp-session-id'];
 
-        this.logger.info(`Established SSE stream with session ID: ${sessionId}`);
-      } catch (error) {
-        this.logger.error('Error establishing SSE stream:', error);
-        if (!res.headersSent) {
-          res.status(500).send('Error establishing SSE stream');
-        }
+      if (enableSse && isLegacySseRequest) {
+        await this.handleSseStream(res);
+        return;
+      }
+
+      if (enableStreamableHttp) {
+        await this.handleStreamableHttpRequest(req, res);
+        return;
       }
+
+      next();
     });
 
-    // Messages endpoint for receiving client JSON-RPC requests
-    app.post('/messages', async (req, res) => {
-      this.logger.debug('Received POST request to /messages, req body:', req.body);
+    // Detailed status report
+    app.get('/status', (req, res) => {
+      res.json(this.getStatus());
+    });
 
-      // Extract session ID from URL query parameter
-      // In the SSE protocol, this is added by the client based on the endpoint event
-      const sessionId = req.query.sessionId as string | undefined;
+    // Let operators inspect sessions and close misbehaving ones
+    app.get('/sessions', (req, res) => {
+      res.json({ sessions: this.listSessions() });
+    });
 
-      if (!sessionId) {
-        this.logger.warn('No session ID provided in request URL');
-        res.status(400).send('Missing sessionId parameter');
+    app.delete('/sessions/:id', async (req, res) => {
+      if (!(await this.closeSession(req.params.id))) {
+        res.status(404).json({ error: 'Session not found' });
         return;
       }
 
-      const transport = transports[sessionId];
-      if (!transport) {
-        this.logger.warn(`No active transport found for session ID: ${sessionId}`);
-        res.status(404).send('Session not found');
-        return;
-      }
+      this.logger.info(`Closed session ${req.params.id} on operator request`);
+      res.status(204).end();
+    });
 
+    // Prometheus metrics
+    app.get('/metrics', async (req, res) => {
       try {
-        // Handle the POST message with the transport
-        await transport.handlePostMessage(req, res, req.body);
+        res.set('Content-Type', metricsRegistry.contentType);
+        res.send(await metricsRegistry.metrics());
       } catch (error) {
-        this.logger.error('Error handling request:', error);
-        if (!res.headersSent) {
-          res.status(500).send('Error handling request');
-        }
+        this.logger.error('Error collecting metrics:', error);
+        res.status(500).send('Error collecting metrics');
       }
     });
 
-    // Start the HTTP server
+    if (enableSse) {
+      // Messages endpoint for receiving legacy SSE client JSON-RPC requests
+      app.post('/messages', async (req, res) => {
+        await this.handleSseMessage(req, res);
+      });
+    }
+
+    if (this.config.port === undefined && !this.config.socketPath) {
+      throw new Error('Either a TCP port or a Unix domain socket path must be configured');
+    }
+
+    try {
+      if (this.config.port !== undefined) {
+        await this.listenOnPort(app, this.config.port);
+      }
+
+      if (this.config.socketPath) {
+        await this.listenOnSocket(app, this.config.socketPath);
+      }
+    } catch (error) {
+      // Don't leave a half-started server behind
+      await this.closeHttpServers();
+      throw error;
+    }
+  }
+
+  /**
+   * Starts listening for HTTP connections on the loopback interface
+   * @param app The Express application
+   * @param port The TCP port
+   */
+  private listenOnPort(app: express.Express, port: number) {
+    const host = this.getBindHost();
+    const protocol = this.config.tls ? 'https' : 'http';
+
     return new Promise<void>((resolve, reject) => {
       try {
-        this.httpServer = app.listen(this.config.port, '127.0.0.1', () => {
-          this.logger.info(`HTTP server listening on http://localhost:${this.config.port}`);
-          resolve();
-        });
-        
+        const server = this.config.tls
+          ? https.createServer(
+              {
+                cert: fs.readFileSync(this.config.tls.certPath),
+                key: fs.readFileSync(this.config.tls.keyPath),
+              },
+              app,
+            )
+          : http.createServer(app);
+        this.httpServers.push(server);
+
         // Add error event handler to properly catch listening errors
-        this.httpServer.on('error', (error: Error & { code?: string }) => {
+        server.on('error', (error: Error & { code?: string }) => {
           if (error.code === 'EADDRINUSE') {
-            this.logger.error(`Port ${this.config.port} is already in use`);
+            this.logger.error(`Port ${port} is already in use`);
           } else {
             this.logger.error(`Error starting HTTP server: ${error.message}`);
           }
           reject(error);
         });
+
+        server.listen(port, host, () => {
+          this.logger.info(`HTTP server listening on ${protocol}://${host.includes(':') ? `[${host}]` : host}:${port}`);
+          resolve();
+        });
       } catch (error) {
         reject(error);
       }
     });
   }
 
+  /**
+   * Starts listening for HTTP connections on a Unix domain socket
+   *
+   * The socket's directory is created with mode 0700 and the socket itself with
+   * mode 0600, so only the current user can connect.
+   * @param app The Express application
+   * @param socketPath The socket path
+   */
+  private async listenOnSocket(app: express.Express, socketPath: string) {
+    const dir = path.dirname(socketPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+
+    await this.removeStaleSocket(socketPath);
+
+    await new Promise<void>((resolve, reject) => {
+      const server = http.createServer(app);
+      this.httpServers.push(server);
+
+      server.on('error', (error: Error) => {
+        this.logger.error(`Error listening on socket ${socketPath}: ${error.message}`);
+        reject(error);
+      });
+
+      // The socket file is created synchronously by listen(), so the umask applies to it
+      const previousUmask = process.umask(0o177);
+      try {
+        server.listen(socketPath, () => {
+          fs.chmodSync(socketPath, 0o600);
+          this.logger.info(`HTTP server listening on unix socket ${socketPath}`);
+          resolve();
+        });
+      } catch (error) {
+        reject(error);
+      } finally {
+        process.umask(previousUmask);
+      }
+    });
+  }
+
+  /**
+   * Removes a socket file left behind by a host that did not shut down cleanly
+   * @param socketPath The socket path
+   * @throws If another process is still accepting connections on the socket
+   */
+  private async removeStaleSocket(socketPath: string) {
+    if (!fs.existsSync(socketPath)) {
+      return;
+    }
+
+    const inUse = await new Promise<boolean>(resolve => {
+      const socket = net.connect(socketPath);
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once('error', () => resolve(false));
+    });
+
+    if (inUse) {
+      const error: Error & { code?: string } = new Error(`Socket ${socketPath} is already in use`);
+      error.code = 'EADDRINUSE';
+      throw error;
+    }
+
+    this.logger.info(`Removing stale socket file: ${socketPath}`);
+    fs.unlinkSync(socketPath);
+  }
+
+  /**
+   * Closes all HTTP listeners
+   */
+  private async closeHttpServers() {
+    const servers = this.httpServers;
+    this.httpServers = [];
+
+    await Promise.all(
+      servers.map(
+        server =>
+          new Promise<void>(resolve => {
+            if (!server.listening) {
+              resolve();
+              return;
+            }
+
+            server.close(() => resolve());
+          }),
+      ),
+    );
+
+    if (this.config.socketPath && fs.existsSync(this.config.socketPath)) {
+      try {
+        fs.unlinkSync(this.config.socketPath);
+      } catch (error) {
+        this.logger.warn(`Failed to remove socket file ${this.config.socketPath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Address the TCP port is bound to
+   */
+  private getBindHost(): string {
+    return this.config.host ?? '127.0.0.1';
+  }
+
+  /**
+   * Describes the configured listeners for log messages
+   */
+  private describeListeners(): string {
+    const listeners: string[] = [];
+    if (this.config.port !== undefined) {
+      listeners.push(`port ${this.config.port}`);
+    }
+    if (this.config.socketPath) {
+      listeners.push(`socket ${this.config.socketPath}`);
+    }
+    return listeners.join(' and ');
+  }
+
+  /**
+   * Handles a Streamable HTTP request (POST, GET or DELETE on /mcp)
+   * @param req The incoming request
+   * @param res The outgoing response
+   */
+  private async handleStreamableHttpRequest(req: express.Request, res: express.Response) {
+    this.logger.debug(`Received ${req.method} request to /mcp (Streamable HTTP)`);
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    try {
+      let transport: StreamableHTTPServerTransport;
+
+      if (sessionId) {
+        const existingTransport = this.sessions.getTransport(sessionId);
+
+        if (!existingTransport) {
+          this.logger.warn(`No active transport found for session ID: ${sessionId}`);
+          this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+
+        if (!(existingTransport instanceof StreamableHTTPServerTransport)) {
+          this.logger.warn(`Session ${sessionId} uses a different transport protocol`);
+          this.sendJsonRpcError(res, 400, -32000, 'Bad Request: Session exists but uses a different transport protocol');
+          return;
+        }
+
+        transport = existingTransport;
+        this.sessions.touch(sessionId);
+      } else if (req.method === 'POST' && isInitializeRequest(req.body)) {
+        const clientInfo = req.body.params.clientInfo;
+
+        // A dedicated MCP server for the client, tracked only once the session is established
+        const { server, tools } = this.createMcpServer();
+
+        // Create a new Streamable HTTP transport for the client, with resumable streams
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          eventStore: new InMemoryEventStore(),
+          onsessioninitialized: newSessionId => {
+            this.sessions.add(newSessionId, 'streamable-http', transport);
+            this.sessions.setClientInfo(newSessionId, clientInfo);
+            this.addMcpServer(server, tools);
+            this.logger.info(`Established Streamable HTTP session with ID: ${newSessionId}`);
+          },
+        });
+
+        await server.connect(transport);
+
+        // Clean up the session when the transport is closed
+        this.onTransportClose(transport, () => {
+          this.mcpServers.delete(server);
+          const closedSessionId = transport.sessionId;
+          if (closedSessionId) {
+            this.logger.debug(`Streamable HTTP transport closed for session ${closedSessionId}`);
+            this.sessions.remove(closedSessionId);
+          }
+        });
+      } else {
+        this.logger.warn('Streamable HTTP request without session ID is not an initialize request');
+        this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      this.logger.error('Error handling Streamable HTTP request:', error);
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  /**
+   * Establishes a legacy SSE stream (GET /mcp without a session header)
+   * @param res The outgoing response used as the event stream
+   */
+  private async handleSseStream(res: express.Response) {
+    this.logger.info('Received GET request to /mcp (establishing SSE stream)');
+
+    try {
+      // Create a new SSE transport for the client
+      // The endpoint for POST messages is '/messages'
+      const transport = new SSEServerTransport('/messages', res);
+
+      // Connect the transport to a dedicated MCP server
+      const { server, tools } = this.createMcpServer();
+      await server.connect(transport);
+
+      // Store the transport by session ID
+      const sessionId = transport.sessionId;
+      this.sessions.add(sessionId, 'sse', transport);
+      this.addMcpServer(server, tools);
+
+      // Clean up the session when the transport is closed
+      this.onTransportClose(transport, () => {
+        this.mcpServers.delete(server);
+        this.logger.debug(`SSE transport closed for session ${sessionId}`);
+        this.sessions.remove(sessionId);
+      });
+
+      this.logger.info(`Established SSE stream with session ID: ${sessionId}`);
+    } catch (error) {
+      this.logger.error('Error establishing SSE stream:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Error establishing SSE stream');
+      }
+    }
+  }
+
+  /**
+   * Handles a legacy SSE client message (POST /messages)
+   * @param req The incoming request
+   * @param res The outgoing response
+   */
+  private async handleSseMessage(req: express.Request, res: express.Response) {
+    this.logger.debug('Received POST request to /messages, req body:', req.body);
+
+    // Extract session ID from URL query parameter
+    // In the SSE protocol, this is added by the client based on the endpoint event
+    const sessionId = req.query.sessionId as string | undefined;
+
+    if (!sessionId) {
+      this.logger.warn('No session ID provided in request URL');
+      res.status(400).send('Missing sessionId parameter');
+      return;
+    }
+
+    const transport = this.sessions.getTransport(sessionId);
+    if (!transport) {
+      this.logger.warn(`No active transport found for session ID: ${sessionId}`);
+      res.status(404).send('Session not found');
+      return;
+    }
+
+    if (!(transport instanceof SSEServerTransport)) {
+      this.logger.warn(`Session ${sessionId} uses a different transport protocol`);
+      res.status(400).send('Session exists but uses a different transport protocol');
+      return;
+    }
+
+    this.sessions.touch(sessionId);
+    if (isInitializeRequest(req.body)) {
+      this.sessions.setClientInfo(sessionId, req.body.params.clientInfo);
+    }
+
+    try {
+      // Handle the POST message with the transport
+      await transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      this.logger.error('Error handling request:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Error handling request');
+      }
+    }
+  }
+
+  /**
+   * Adds a close handler to a connected transport
+   *
+   * McpServer.connect() replaces the transport's onclose, so handlers must be chained
+   * after connecting rather than assigned before.
+   * @param transport The connected transport
+   * @param handler Called after the server has processed the close
+   */
+  private onTransportClose(transport: McpTransport, handler: () => void) {
+    const serverOnClose = transport.onclose;
+    transport.onclose = () => {
+      serverOnClose?.();
+      handler();
+    };
+  }
+
+  /**
+   * Sends a JSON-RPC error response over plain HTTP
+   * @param res The outgoing response
+   * @param status HTTP status code
+   * @param code JSON-RPC error code
+   * @param message Error message
+   */
+  private sendJsonRpcError(res: express.Response, status: number, code: number, message: string) {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    });
+  }
+
   /**
    * Shuts down the MCP server
    * @returns A promise that resolves when the server is shut down
@@ -210,36 +800,13 @@ export class McpServerManager {
     }
 
     try {
-      // Get all active transports (we need to get this before closing the server)
-      const activeTransports = Object.values(
-        this.httpServer?.address()
-          ? // Using a type assertion because we can't directly access the transports map
-            (this.httpServer as any)._events?.request?.transports || {}
-          : {},
-      ) as SSEServerTransport[];
-
-      // Close all active transports to properly clean up resources
-      if (activeTransports.length > 0) {
-        this.logger.info(`Closing ${activeTransports.length} active transport(s)`);
-        for (const transport of activeTransports) {
-          try {
-            await transport.close();
-          } catch (error) {
-            this.logger.error(`Error closing transport:`, error);
-          }
-        }
-      }
+      // Close all active sessions to properly clean up resources
+      this.sessions.stopEviction();
+      await this.sessions.closeAll();
 
-      // Close the HTTP server
-      if (this.httpServer) {
-        await new Promise<void>(resolve => {
-          this.httpServer.close(() => {
-            this.logger.info('HTTP server closed');
-            resolve();
-          });
-        });
-        this.httpServer = null;
-      }
+      // Close the HTTP listeners
+      await this.closeHttpServers();
+      this.logger.info('HTTP server closed');
 
       this.isRunning = false;
       this.logger.info('MCP server shutdown complete');
@@ -258,7 +825,28 @@ export class McpServerManager {
     return this.isRunning;
   }
 
-  public getMcpServer(): McpServer {
-    return this.mcpServer;
+  /**
+   * Lists the active MCP sessions
+   * @returns Information about each connected client
+   */
+  public listSessions(): McpSessionInfo[] {
+    return this.sessions.list();
+  }
+
+  /**
+   * Forcibly closes an MCP session
+   * @param sessionId The session ID
+   * @returns True if the session existed and was closed, false otherwise
+   */
+  public async closeSession(sessionId: string): Promise<boolean> {
+    return this.sessions.close(sessionId);
   }
 }
+
+/**
+ * Whether an address only accepts connections from this machine
+ * @param host The bind address
+ */
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
@@ -0,0 +1,114 @@
+/**
+ * Schemas of the native messages received from the extension
+ *
+ * Every inbound message must be an object with a string `type`. The payload (the message
+ * without `type`) is validated against the schema of that type before its handler runs,
+ * so handlers can rely on the shapes below.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Envelope shared by all messages
+ */
+export const BaseMessageSchema = z
+  .object({
+    type: z.string().min(1),
+  })
+  .passthrough();
+
+/**
+ * `rpc_request`: the extension calls a method implemented by the host
+ */
+export const RpcRequestMessageSchema = z.object({
+  id: z.string().min(1),
+  method: z.string().min(1),
+  params: z.unknown().optional(),
+});
+
+/**
+ * `rpc_response`: the extension answers an RPC request sent by the host
+ */
+export const RpcResponseMessageSchema = z.object({
+  id: z.string().min(1),
+  result: z.unknown().optional(),
+  error: z
+    .object({
+      code: z.number().int(),
+      message: z.string(),
+      data: z.unknown().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * `rpc_progress`: the extension reports progress on an RPC request sent by the host
+ */
+export const RpcProgressMessageSchema = z.object({
+  id: z.string().min(1),
+  progress: z.number().finite().optional(),
+  total: z.number().finite().optional(),
+  message: z.string().optional(),
+});
+
+/**
+ * `chunk`: fragment of a message too large for a single frame
+ */
+export const ChunkMessageSchema = z
+  .object({
+    id: z.string().min(1),
+    seq: z.number().int().nonnegative(),
+    total: z.number().int().positive(),
+    data: z.string(),
+  })
+  .refine(chunk => chunk.seq < chunk.total, { message: 'seq must be less than total', path: ['seq'] });
+
+/**
+ * `init`: the extension opens the connection and reports its capabilities
+ */
+export const InitMessageSchema = z.object({
+  protocolVersion: z.number().int().optional(),
+  methods: z.array(z.string()).optional(),
+});
+
+/**
+ * `shutdown`: the extension asks the host to stop serving MCP
+ */
+export const ShutdownMessageSchema = z.object({});
+
+/**
+ * `error`: the extension reports a problem with a message sent by the host
+ */
+export const ErrorMessageSchema = z
+  .object({
+    error: z.string().optional(),
+    originalType: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Payload schemas of the message types the host handles
+ */
+export const inboundMessageSchemas: Record<string, z.ZodTypeAny> = {
+  rpc_request: RpcRequestMessageSchema,
+  rpc_response: RpcResponseMessageSchema,
+  rpc_progress: RpcProgressMessageSchema,
+  chunk: ChunkMessageSchema,
+  init: InitMessageSchema,
+  shutdown: ShutdownMessageSchema,
+  error: ErrorMessageSchema,
+};
+
+export type RpcRequestMessage = z.infer<typeof RpcRequestMessageSchema>;
+export type RpcResponseMessage = z.infer<typeof RpcResponseMessageSchema>;
+export type RpcProgressMessage = z.infer<typeof RpcProgressMessageSchema>;
+export type ChunkMessagePayload = z.infer<typeof ChunkMessageSchema>;
+export type ErrorMessage = z.infer<typeof ErrorMessageSchema>;
+
+/**
+ * Formats validation issues for logs and error messages
+ * @param error The validation error
+ */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'message'}: ${issue.message}`).join('; ');
+}
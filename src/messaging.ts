@@ -1,31 +1,153 @@
 import { Readable, Writable } from 'stream';
+import { RpcError, RpcErrorCode } from './errors.js';
 import { createLogger } from './logger.js';
+import {
+  nativeMessageBytesTotal,
+  nativeMessagesTotal,
+  nativeOutboundQueueBytes,
+  rpcRequestDuration,
+  rpcRequestsTotal,
+  rpcTimeoutsTotal,
+} from './metrics.js';
+import { TrafficRecorder } from './traffic-recorder.js';
 import { v4 as uuidv4 } from 'uuid';
-import { RpcRequest, RpcResponse, RpcRequestOptions, RpcHandler, MessageHandler } from './types.js';
+import { ZodError, ZodTypeAny } from 'zod';
+import {
+  BaseMessageSchema,
+  ChunkMessagePayload,
+  formatIssues,
+  inboundMessageSchemas,
+  RpcProgressMessage,
+  RpcRequestMessage,
+  RpcResponseMessage,
+} from './message-schemas.js';
+import {
+  RpcRequest,
+  RpcResponse,
+  RpcRequestOptions,
+  RpcProgress,
+  RpcHandler,
+  MessageHandler,
+  ConnectionState,
+  NativeMessagingOptions,
+  OutboundQueueDepth,
+} from './types.js';
 
 export interface Message {
   type: string;
   [key: string]: any;
 }
 
+/**
+ * Fragment of a message too large for a single native messaging frame
+ *
+ * The UTF-8 JSON of the original message is split into `total` byte ranges, each sent
+ * base64-encoded in `data` with its zero-based `seq`; all fragments share the same `id`.
+ */
+export interface ChunkMessage {
+  type: 'chunk';
+  id: string;
+  seq: number;
+  total: number;
+  data: string;
+}
+
+// Room for the chunk envelope around the base64 payload
+const CHUNK_ENVELOPE_SIZE = 256;
+
+/**
+ * Message types whose params and results carry user input or page content, such as typed
+ * passwords, and are therefore only logged in summary; chunks carry fragments of such messages
+ */
+const REDACTED_MESSAGE_TYPES = new Set(['rpc_request', 'rpc_response', 'chunk']);
+
+/**
+ * Messages above this size are only logged in summary, whatever their type
+ */
+const MAX_LOGGED_MESSAGE_SIZE = 4096;
+
+/**
+ * Describes a message for the log file
+ * @param message The message
+ * @param size Size of the serialized message in bytes
+ * @returns The message itself if it is small and holds no user data, otherwise a summary without its payload
+ */
+function describeMessage(message: any, size: number): unknown {
+  if (!REDACTED_MESSAGE_TYPES.has(message?.type) && size <= MAX_LOGGED_MESSAGE_SIZE) {
+    return message;
+  }
+
+  return {
+    type: message?.type,
+    id: message?.id,
+    method: message.method,
+    error: message.error?.code,
+    seq: message.seq,
+    total: message.total,
+    bytes: size,
+  };
+}
+
 export class NativeMessaging {
   private logger = createLogger('messaging');
   private stdin: Readable;
   private stdout: Writable;
   private buffer: Buffer = Buffer.alloc(0);
+  private discardRemaining = 0;
+  private connectionState: ConnectionState = 'connecting';
+  private connectionStateListeners: Array<(state: ConnectionState) => void> = [];
+  private maxFrameSize: number;
+  private chunkSize: number;
+  private maxMessageSize: number;
+  private chunkTimeout: number;
+  private incomingRequestTimeout: number;
+  private maxOutboundQueueBytes: number;
+  private outboundQueue: Buffer[] = [];
+  private outboundQueueBytes = 0;
+  private waitingForDrain = false;
+  private recorder: TrafficRecorder | null;
+  private incomingChunks = new Map<
+    string,
+    { total: number; parts: Buffer[]; received: number; size: number; timeoutId: NodeJS.Timeout }
+  >();
   private messageHandlers: Map<string, MessageHandler> = new Map();
+  private messageSchemas: Map<string, ZodTypeAny> = new Map(Object.entries(inboundMessageSchemas));
   private rpcMethodHandlers: Map<string, RpcHandler> = new Map();
   private pendingRequests = new Map<
     string,
-    { resolve: (value: any) => void; reject: (reason?: any) => void; timeoutId: NodeJS.Timeout }
+    {
+      resolve: (value: any) => void;
+      reject: (error: RpcError) => void;
+      progress: (update: Omit<RpcProgressMessage, 'id'>) => void;
+      method: string;
+      timeoutId: NodeJS.Timeout;
+    }
   >();
 
-  constructor(stdin: Readable = process.stdin, stdout: Writable = process.stdout) {
+  constructor(
+    stdin: Readable = process.stdin,
+    stdout: Writable = process.stdout,
+    options: NativeMessagingOptions = {},
+  ) {
     this.stdin = stdin;
     this.stdout = stdout;
+    this.maxFrameSize = options.maxFrameSize ?? 1024 * 1024;
+    this.chunkSize = options.chunkSize ?? 512 * 1024;
+    this.maxMessageSize = options.maxMessageSize ?? 64 * 1024 * 1024;
+    this.chunkTimeout = options.chunkTimeout ?? 30000;
+    this.incomingRequestTimeout = options.incomingRequestTimeout ?? 30000;
+    this.maxOutboundQueueBytes = options.maxOutboundQueueBytes ?? 32 * 1024 * 1024;
+    this.recorder = options.recordFile ? new TrafficRecorder(options.recordFile) : null;
+
+    if (Math.ceil(this.chunkSize / 3) * 4 + CHUNK_ENVELOPE_SIZE > this.maxFrameSize) {
+      throw new Error(`Chunk size ${this.chunkSize} does not fit in frames of ${this.maxFrameSize} bytes`);
+    }
+
     this.setupMessageHandling();
     this.registerRpcResponseHandler();
     this.registerRpcRequestHandler();
+    this.registerRpcProgressHandler();
+    this.registerChunkHandler();
   }
 
   private setupMessageHandling() {
@@ -40,27 +162,124 @@ export class NativeMessaging {
 
     this.stdin.on('end', () => {
       this.logger.info('Native messaging host: stdin ended');
+      this.disconnect('stdin ended');
+    });
+
+    this.stdin.on('error', error => {
+      this.logger.error('Native messaging host: stdin error:', error);
+      this.disconnect(`stdin error: ${error.message}`);
+    });
+
+    this.stdout.on('drain', () => {
+      this.waitingForDrain = false;
+      this.flushOutboundQueue();
+    });
+
+    // Writing after Chrome closed the pipe fails with EPIPE
+    this.stdout.on('error', error => {
+      this.logger.error('Native messaging host: stdout error:', error);
+      this.disconnect(`stdout error: ${error.message}`);
     });
   }
 
+  /**
+   * Moves to a new connection state and notifies listeners
+   */
+  private setConnectionState(state: ConnectionState) {
+    if (this.connectionState === state) {
+      return;
+    }
+
+    this.logger.info(`Extension connection state: ${this.connectionState} -> ${state}`);
+    this.connectionState = state;
+
+    for (const listener of this.connectionStateListeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        this.logger.error('Error in connection state listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Marks the extension as disconnected and fails everything waiting on it
+   * @param reason Why the connection was lost
+   */
+  private disconnect(reason: string) {
+    if (this.connectionState === 'disconnected') {
+      return;
+    }
+
+    this.setConnectionState('disconnected');
+
+    for (const [id, request] of Array.from(this.pendingRequests.entries())) {
+      clearTimeout(request.timeoutId);
+      this.pendingRequests.delete(id);
+      request.reject(new RpcError(RpcErrorCode.NOT_CONNECTED, `Extension not connected: ${reason} (id: ${id})`));
+    }
+
+    for (const assembly of Array.from(this.incomingChunks.values())) {
+      clearTimeout(assembly.timeoutId);
+    }
+    this.incomingChunks.clear();
+
+    // Nobody is left to read what is still queued
+    this.outboundQueue = [];
+    this.outboundQueueBytes = 0;
+    nativeOutboundQueueBytes.set(0);
+  }
+
   private processBuffer() {
+    // Skip the rest of an oversized frame
+    if (this.discardRemaining > 0) {
+      const discarded = Math.min(this.discardRemaining, this.buffer.length);
+      this.buffer = this.buffer.subarray(discarded);
+      this.discardRemaining -= discarded;
+      if (this.discardRemaining > 0) return;
+    }
+
     // Message format: 4-byte length prefix + JSON
     if (this.buffer.length < 4) return;
 
     const messageLength = this.buffer.readUInt32LE(0);
+
+    if (messageLength > this.maxMessageSize) {
+      this.logger.error(`Discarding message of ${messageLength} bytes, limit is ${this.maxMessageSize} bytes`);
+      this.trySendMessage({
+        type: 'error',
+        error: `Message of ${messageLength} bytes exceeds the limit of ${this.maxMessageSize} bytes`,
+      });
+
+      this.buffer = this.buffer.subarray(4);
+      this.discardRemaining = messageLength;
+      this.processBuffer();
+      return;
+    }
+
     if (this.buffer.length < messageLength + 4) return;
 
-    const messageJson = this.buffer.subarray(4, messageLength + 4).toString('utf8');
+    const frame = this.buffer.subarray(4, messageLength + 4);
+    const messageJson = frame.toString('utf8');
     this.buffer = this.buffer.subarray(messageLength + 4);
 
+    this.recorder?.record('in', frame);
+
+    nativeMessagesTotal.inc({ direction: 'in' });
+    nativeMessageBytesTotal.inc({ direction: 'in' }, messageLength + 4);
+
     try {
       const message = JSON.parse(messageJson);
-      this.logger.info('Received message:', message);
+      this.logger.info('Received message:', describeMessage(message, messageLength));
       this.handleMessage(message).catch(error => {
         this.logger.error('Error handling message:', error);
       });
     } catch (error) {
       this.logger.error('Error parsing message:', error);
+      this.trySendMessage({
+        type: 'error',
+        error: `Invalid message: ${error instanceof Error ? error.message : String(error)}`,
+      });
     }
 
     // Process additional messages if any
@@ -69,8 +288,24 @@ export class NativeMessaging {
     }
   }
 
-  private async handleMessage(message: Message) {
-    const { type, ...data } = message;
+  private async handleMessage(message: unknown) {
+    const envelope = BaseMessageSchema.safeParse(message);
+
+    if (!envelope.success) {
+      this.logger.warn(
+        'Rejecting message without a valid type:',
+        describeMessage(message, Buffer.byteLength(JSON.stringify(message) ?? '', 'utf8')),
+      );
+      this.sendMessage({ type: 'error', error: `Invalid message: ${formatIssues(envelope.error)}` });
+      return;
+    }
+
+    const { type, ...data } = envelope.data;
+
+    if (this.connectionState === 'connecting') {
+      this.setConnectionState('connected');
+    }
+
     const handler = this.messageHandlers.get(type);
 
     if (!handler) {
@@ -79,9 +314,17 @@ export class NativeMessaging {
       return;
     }
 
+    const schema = this.messageSchemas.get(type);
+    const payload = schema ? schema.safeParse(data) : { success: true as const, data };
+
+    if (!payload.success) {
+      this.rejectInvalidMessage(type, data, payload.error);
+      return;
+    }
+
     try {
       this.logger.debug(`Handling message type: ${type}`);
-      await handler(data);
+      await handler(payload.data);
     } catch (error) {
       this.logger.error(`Error handling message type ${type}:`, error);
       this.sendMessage({
@@ -92,23 +335,162 @@ export class NativeMessaging {
     }
   }
 
-  public registerHandler(type: string, handler: MessageHandler) {
+  /**
+   * Reports a message whose payload failed validation back to the extension
+   *
+   * Requests and responses are also answered or failed, so neither side waits for them until a timeout.
+   */
+  private rejectInvalidMessage(type: string, data: Record<string, unknown>, error: ZodError) {
+    const issues = formatIssues(error);
+    this.logger.warn(`Rejecting invalid ${type} message: ${issues}`);
+
+    const id = typeof data.id === 'string' ? data.id : undefined;
+
+    if (type === 'rpc_request' && id) {
+      this.sendRpcError(id, new RpcError(RpcErrorCode.INVALID_REQUEST, `Invalid rpc_request: ${issues}`));
+      return;
+    }
+
+    const pending = id ? this.pendingRequests.get(id) : undefined;
+    if (type === 'rpc_response' && id && pending) {
+      clearTimeout(pending.timeoutId);
+      this.pendingRequests.delete(id);
+      pending.reject(new RpcError(RpcErrorCode.INTERNAL_ERROR, `Invalid rpc_response from extension: ${issues}`));
+    }
+
+    this.sendMessage({ type: 'error', originalType: type, error: `Invalid ${type} message: ${issues}` });
+  }
+
+  /**
+   * Registers the handler of a message type
+   * @param type The message type
+   * @param handler Called with the message without its type
+   * @param schema Schema the message without its type must match, for types without a built-in schema
+   */
+  public registerHandler(type: string, handler: MessageHandler, schema?: ZodTypeAny) {
     this.logger.debug(`Registering handler for message type: ${type}`);
     this.messageHandlers.set(type, handler);
+
+    if (schema) {
+      this.messageSchemas.set(type, schema);
+    }
   }
 
   public sendMessage(message: any) {
-    this.logger.debug(`Sending message:`, message);
-
     const messageJson = JSON.stringify(message);
     const messageBuffer = Buffer.from(messageJson, 'utf8');
+
+    this.logger.debug(`Sending message:`, describeMessage(message, messageBuffer.length));
+
+    if (messageBuffer.length > this.maxMessageSize) {
+      throw new Error(
+        `Message of ${messageBuffer.length} bytes exceeds the limit of ${this.maxMessageSize} bytes`,
+      );
+    }
+
+    if (messageBuffer.length <= this.maxFrameSize) {
+      this.enqueueFrames([this.createFrame(messageBuffer)]);
+      return;
+    }
+
+    // Chrome drops host-to-extension messages above 1 MB, so send the message in fragments
+    const id = uuidv4();
+    const total = Math.ceil(messageBuffer.length / this.chunkSize);
+    this.logger.debug(`Sending ${messageBuffer.length} byte message in ${total} chunks (id: ${id})`);
+
+    const frames: Buffer[] = [];
+    for (let seq = 0; seq < total; seq++) {
+      const chunk: ChunkMessage = {
+        type: 'chunk',
+        id,
+        seq,
+        total,
+        data: messageBuffer.subarray(seq * this.chunkSize, (seq + 1) * this.chunkSize).toString('base64'),
+      };
+      frames.push(this.createFrame(Buffer.from(JSON.stringify(chunk), 'utf8')));
+    }
+    this.enqueueFrames(frames);
+  }
+
+  /**
+   * Sends a message, logging instead of throwing if it cannot be sent (e.g. the outbound queue is full)
+   *
+   * Used from stream listeners and timers, where an exception would end the host process.
+   * @param message The message
+   */
+  private trySendMessage(message: any) {
+    try {
+      this.sendMessage(message);
+    } catch (error) {
+      this.logger.error(`Failed to send ${message.type} message:`, error);
+    }
+  }
+
+  /**
+   * Prefixes a message with its length
+   * @param messageBuffer The UTF-8 encoded JSON message
+   * @returns The frame to write to stdout
+   */
+  private createFrame(messageBuffer: Buffer): Buffer {
     const length = messageBuffer.length;
 
     const buffer = Buffer.alloc(4 + length);
     buffer.writeUInt32LE(length, 0);
     messageBuffer.copy(buffer, 4);
 
-    this.stdout.write(buffer);
+    return buffer;
+  }
+
+  /**
+   * Queues the frames of one message and writes as many as stdout accepts
+   *
+   * The frames of a message are queued all or nothing, so a chunked message is never cut short.
+   * @param frames The frames to send
+   * @throws Error if the queue cannot take the frames
+   */
+  private enqueueFrames(frames: Buffer[]) {
+    const size = frames.reduce((total, frame) => total + frame.length, 0);
+
+    if (this.outboundQueueBytes > 0 && this.outboundQueueBytes + size > this.maxOutboundQueueBytes) {
+      throw new Error(
+        `Outbound queue full: ${this.outboundQueueBytes} bytes are waiting for the extension to read, ` +
+          `limit is ${this.maxOutboundQueueBytes} bytes`,
+      );
+    }
+
+    for (const frame of frames) {
+      this.recorder?.record('out', frame.subarray(4));
+    }
+
+    this.outboundQueue.push(...frames);
+    this.outboundQueueBytes += size;
+    this.flushOutboundQueue();
+  }
+
+  /**
+   * Writes queued frames to stdout until it asks us to wait for drain
+   */
+  private flushOutboundQueue() {
+    while (!this.waitingForDrain && this.outboundQueue.length > 0) {
+      const frame = this.outboundQueue.shift()!;
+      this.outboundQueueBytes -= frame.length;
+
+      nativeMessagesTotal.inc({ direction: 'out' });
+      nativeMessageBytesTotal.inc({ direction: 'out' }, frame.length);
+
+      if (!this.stdout.write(frame)) {
+        this.waitingForDrain = true;
+      }
+    }
+
+    nativeOutboundQueueBytes.set(this.outboundQueueBytes);
+  }
+
+  /**
+   * Gets the number of frames and bytes waiting for stdout to drain
+   */
+  public getOutboundQueueDepth(): OutboundQueueDepth {
+    return { frames: this.outboundQueue.length, bytes: this.outboundQueueBytes };
   }
 
   public rpcRequest(rpc: RpcRequest, options: RpcRequestOptions = {}): Promise<RpcResponse> {
@@ -116,29 +498,99 @@ export class NativeMessaging {
     const method = rpc.method;
     const params = rpc.params;
 
-    const { timeout = 5000 } = options;
+    const { timeout = 5000, signal, onProgress } = options;
+
+    if (this.connectionState === 'disconnected') {
+      rpcRequestsTotal.inc({ method, status: 'not_connected' });
+      return Promise.reject(
+        new RpcError(RpcErrorCode.NOT_CONNECTED, `Extension not connected: cannot send ${method} (id: ${id})`),
+      );
+    }
+
+    if (signal?.aborted) {
+      rpcRequestsTotal.inc({ method, status: 'cancelled' });
+      return Promise.reject(new RpcError(RpcErrorCode.CANCELLED, `RPC request cancelled: ${method} (id: ${id})`));
+    }
 
     this.logger.debug(`Sending RPC request: ${method} (id: ${id})`);
 
+    const endTimer = rpcRequestDuration.startTimer({ method });
+
     return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
+      const onAbort = () => {
+        clearTimeout(pending.timeoutId);
         this.pendingRequests.delete(id);
-        reject(new Error(`RPC request timeout: ${method} (id: ${id})`));
-      }, timeout);
+        endTimer();
+        rpcRequestsTotal.inc({ method, status: 'cancelled' });
+        this.logger.info(`RPC request cancelled: ${method} (id: ${id})`);
+
+        // Let the extension stop working on the request
+        try {
+          this.sendMessage({ type: 'rpc_cancel', id });
+        } catch (error) {
+          this.logger.error(`Failed to send rpc_cancel for ${id}:`, error);
+        }
+
+        reject(new RpcError(RpcErrorCode.CANCELLED, `RPC request cancelled: ${method} (id: ${id})`));
+      };
+
+      const onTimeout = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingRequests.delete(id);
+        endTimer();
+        rpcRequestsTotal.inc({ method, status: 'timeout' });
+        rpcTimeoutsTotal.inc({ method });
+        reject(new RpcError(RpcErrorCode.TIMEOUT, `RPC request timeout: ${method} (id: ${id})`));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      let progressUpdates = 0;
+      const pending = {
+        resolve: (value: any) => {
+          signal?.removeEventListener('abort', onAbort);
+          endTimer();
+          rpcRequestsTotal.inc({ method, status: 'success' });
+          resolve(value);
+        },
+        reject: (error: RpcError) => {
+          signal?.removeEventListener('abort', onAbort);
+          endTimer();
+          rpcRequestsTotal.inc({ method, status: 'error' });
+          reject(error);
+        },
+        progress: (update: Omit<RpcProgressMessage, 'id'>) => {
+          // The extension is still working on it, so give it the full timeout again
+          clearTimeout(pending.timeoutId);
+          pending.timeoutId = setTimeout(onTimeout, timeout);
+
+          // Count the updates when the extension only reports step messages
+          progressUpdates++;
+          onProgress?.({ ...update, progress: update.progress ?? progressUpdates });
+        },
+        method,
+        timeoutId: setTimeout(onTimeout, timeout),
+      };
 
-      this.pendingRequests.set(id, { resolve, reject, timeoutId });
+      this.pendingRequests.set(id, pending);
 
-      this.sendMessage({
-        type: 'rpc_request',
-        id,
-        method,
-        params,
-      });
+      try {
+        this.sendMessage({
+          type: 'rpc_request',
+          id,
+          method,
+          params,
+        });
+      } catch (error) {
+        clearTimeout(pending.timeoutId);
+        this.pendingRequests.delete(id);
+        pending.reject(RpcError.from(error));
+      }
     });
   }
 
   private registerRpcResponseHandler() {
-    this.registerHandler('rpc_response', async (data: any) => {
+    this.registerHandler('rpc_response', async (data: RpcResponseMessage) => {
       const id = data.id;
 
       this.logger.debug(`Received RPC response for ID: ${id}`);
@@ -154,7 +606,7 @@ export class NativeMessaging {
       this.pendingRequests.delete(id);
 
       if (data.error) {
-        handler.reject(data.error);
+        handler.reject(RpcError.fromResponse(data.error, handler.method));
       } else {
         handler.resolve(data.result || {});
       }
@@ -164,7 +616,7 @@ export class NativeMessaging {
   }
 
   private registerRpcRequestHandler() {
-    this.registerHandler('rpc_request', async (data: any) => {
+    this.registerHandler('rpc_request', async (data: RpcRequestMessage) => {
       const { method, id } = data;
       this.logger.debug(`Handling incoming RPC request: ${method}`);
 
@@ -172,25 +624,175 @@ export class NativeMessaging {
 
       if (!handler) {
         this.logger.warn(`No handler registered for RPC method: ${method}`);
+        this.sendRpcError(id, new RpcError(RpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`));
         return;
       }
 
+      let timeoutId: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          reject(
+            new RpcError(
+              RpcErrorCode.TIMEOUT,
+              `Handler for ${method} did not respond within ${this.incomingRequestTimeout}ms`,
+            ),
+          );
+        }, this.incomingRequestTimeout);
+      });
+
+      let resp: RpcResponse;
       try {
-        const resp = await handler(data);
-        resp.id = data.id;
+        resp = await Promise.race([handler(data), timeout]);
+      } catch (error) {
+        this.logger.error(`Error in handler for method ${method}:`, error);
+        this.sendRpcError(id, error instanceof ZodError ? RpcError.fromZodError(error) : RpcError.from(error));
+        return;
+      } finally {
+        clearTimeout(timeoutId);
+      }
 
+      try {
         this.sendMessage({
           type: 'rpc_response',
           ...resp,
+          id,
         });
       } catch (error) {
-        this.logger.error(`Error in handler for method ${method}:`, error);
+        // E.g. a result above the maximum message size
+        this.logger.error(`Failed to send response for method ${method}:`, error);
+        this.sendRpcError(id, RpcError.from(error));
       }
     });
   }
 
+  /**
+   * Answers an RPC request from the extension with an error
+   * @param id The request ID
+   * @param error The error
+   */
+  private sendRpcError(id: string | undefined, error: RpcError) {
+    this.sendMessage({
+      type: 'rpc_response',
+      id,
+      error: { code: error.code, message: error.message, data: error.data },
+    });
+  }
+
+  private registerRpcProgressHandler() {
+    this.registerHandler('rpc_progress', async (data: RpcProgressMessage) => {
+      const id = data.id;
+      const handler = this.pendingRequests.get(id);
+
+      if (!handler) {
+        this.logger.warn(`No pending request found for RPC progress ID: ${id}`);
+        return;
+      }
+
+      this.logger.debug(`Received RPC progress for ID: ${id}`, data);
+
+      try {
+        handler.progress({
+          progress: data.progress,
+          total: data.total,
+          message: data.message,
+        });
+      } catch (error) {
+        this.logger.error(`Error handling RPC progress for ID ${id}:`, error);
+      }
+    });
+  }
+
+  private registerChunkHandler() {
+    this.registerHandler('chunk', async (data: ChunkMessagePayload) => {
+      const { id, seq, total, data: payload } = data;
+
+      let assembly = this.incomingChunks.get(id);
+
+      if (!assembly) {
+        const timeoutId = setTimeout(() => {
+          const incomplete = this.incomingChunks.get(id);
+          this.incomingChunks.delete(id);
+          this.logger.error(`Timed out waiting for chunks of message ${id}`);
+          this.trySendMessage({
+            type: 'error',
+            error: `Incomplete chunked message ${id}: received ${incomplete?.received} of ${total} chunks`,
+          });
+        }, this.chunkTimeout);
+
+        assembly = { total, parts: new Array(total), received: 0, size: 0, timeoutId };
+        this.incomingChunks.set(id, assembly);
+      }
+
+      if (assembly.total !== total) {
+        throw new Error(`Chunk ${seq} of message ${id} has total ${total}, expected ${assembly.total}`);
+      }
+
+      if (assembly.parts[seq]) {
+        this.logger.warn(`Ignoring duplicate chunk ${seq} of message ${id}`);
+        return;
+      }
+
+      const part = Buffer.from(payload, 'base64');
+      assembly.size += part.length;
+
+      if (assembly.size > this.maxMessageSize) {
+        clearTimeout(assembly.timeoutId);
+        this.incomingChunks.delete(id);
+        throw new Error(`Chunked message ${id} exceeds the limit of ${this.maxMessageSize} bytes`);
+      }
+
+      assembly.parts[seq] = part;
+      assembly.received++;
+
+      if (assembly.received < assembly.total) {
+        return;
+      }
+
+      clearTimeout(assembly.timeoutId);
+      this.incomingChunks.delete(id);
+
+      const message = JSON.parse(Buffer.concat(assembly.parts).toString('utf8'));
+      if (message?.type === 'chunk') {
+        throw new Error(`Chunked message ${id} contains another chunk`);
+      }
+
+      this.logger.debug(`Reassembled ${assembly.size} byte message from ${total} chunks (id: ${id})`);
+      await this.handleMessage(message);
+    });
+  }
+
   public registerRpcMethod(method: string, handler: RpcHandler): void {
     this.logger.debug(`Registering RPC handler for method: ${method}`);
     this.rpcMethodHandlers.set(method, handler);
   }
+
+  /**
+   * Whether the extension is connected
+   * @returns True once the extension has sent a message and until the connection is lost
+   */
+  public isConnected(): boolean {
+    return this.connectionState === 'connected';
+  }
+
+  /**
+   * Gets the state of the connection to the extension
+   */
+  public getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Registers a listener called whenever the connection state changes
+   * @param listener The listener
+   */
+  public onConnectionStateChange(listener: (state: ConnectionState) => void): void {
+    this.connectionStateListeners.push(listener);
+  }
+
+  /**
+   * Number of outgoing RPC requests still waiting for a response
+   */
+  public getPendingRequestCount(): number {
+    return this.pendingRequests.size;
+  }
 }
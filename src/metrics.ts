@@ -0,0 +1,106 @@
+/**
+ * Prometheus metrics for MCP Host
+ *
+ * All metrics live in a dedicated registry that is served in the Prometheus text
+ * format on GET /metrics by the MCP server manager.
+ */
+
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'nanobrowser_mcp_host_' });
+
+// Tool calls span quick low-level actions up to run_task's 5 minute default timeout
+const durationBuckets = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+/**
+ * MCP tool calls by tool and outcome
+ */
+export const toolCallsTotal = new Counter({
+  name: 'nanobrowser_mcp_tool_calls_total',
+  help: 'Total number of MCP tool calls',
+  labelNames: ['tool', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * MCP tool call latency
+ */
+export const toolCallDuration = new Histogram({
+  name: 'nanobrowser_mcp_tool_call_duration_seconds',
+  help: 'Duration of MCP tool calls in seconds',
+  labelNames: ['tool'] as const,
+  buckets: durationBuckets,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Native RPC requests sent to the extension by method and outcome
+ */
+export const rpcRequestsTotal = new Counter({
+  name: 'nanobrowser_mcp_rpc_requests_total',
+  help: 'Total number of native RPC requests sent to the extension',
+  labelNames: ['method', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Native RPC round-trip time
+ */
+export const rpcRequestDuration = new Histogram({
+  name: 'nanobrowser_mcp_rpc_request_duration_seconds',
+  help: 'Round-trip time of native RPC requests in seconds',
+  labelNames: ['method'] as const,
+  buckets: durationBuckets,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Native RPC requests that received no response in time
+ */
+export const rpcTimeoutsTotal = new Counter({
+  name: 'nanobrowser_mcp_rpc_timeouts_total',
+  help: 'Total number of native RPC requests that timed out',
+  labelNames: ['method'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Connected MCP sessions by transport
+ */
+export const activeSessions = new Gauge({
+  name: 'nanobrowser_mcp_active_sessions',
+  help: 'Number of active MCP sessions',
+  labelNames: ['transport'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Native messaging frames exchanged with the extension
+ */
+export const nativeMessagesTotal = new Counter({
+  name: 'nanobrowser_mcp_native_messages_total',
+  help: 'Total number of native messages exchanged with the extension',
+  labelNames: ['direction'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Native messaging bytes waiting for stdout to drain
+ */
+export const nativeOutboundQueueBytes = new Gauge({
+  name: 'nanobrowser_mcp_native_outbound_queue_bytes',
+  help: 'Bytes of native messages queued for the extension while stdout drains',
+  registers: [metricsRegistry],
+});
+
+/**
+ * Native messaging bytes exchanged with the extension, including length prefixes
+ */
+export const nativeMessageBytesTotal = new Counter({
+  name: 'nanobrowser_mcp_native_message_bytes_total',
+  help: 'Total bytes of native messages exchanged with the extension',
+  labelNames: ['direction'] as const,
+  registers: [metricsRegistry],
+});
@@ -0,0 +1,57 @@
+/**
+ * Native messaging protocol version negotiated with the extension
+ *
+ * The extension opens the connection with an `init` message carrying the protocol
+ * version it speaks and the RPC methods it implements. The host accepts any version
+ * between MIN_PROTOCOL_VERSION and PROTOCOL_VERSION and answers with `init_ack`.
+ */
+
+/**
+ * Protocol version spoken by this host
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Oldest extension protocol version this host still supports
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * RPC methods implemented by extensions that predate the handshake and do not report their own
+ */
+export const LEGACY_EXTENSION_METHODS = ['run_task', 'navigate_to', 'get_browser_state'];
+
+/**
+ * Capabilities reported by the extension in its `init` message
+ */
+export interface ExtensionHandshake {
+  /**
+   * Protocol version spoken by the extension; absent for extensions that predate the handshake
+   */
+  protocolVersion?: number;
+
+  /**
+   * RPC methods the extension implements
+   */
+  methods?: string[];
+}
+
+/**
+ * Checks that the extension speaks a protocol version this host supports
+ * @param protocolVersion The version reported by the extension
+ * @throws Error describing the mismatch when the version is not supported
+ */
+export function assertCompatibleProtocolVersion(protocolVersion: unknown): asserts protocolVersion is number {
+  if (typeof protocolVersion !== 'number' || !Number.isInteger(protocolVersion)) {
+    throw new Error(`Invalid protocol version: ${JSON.stringify(protocolVersion)}`);
+  }
+
+  if (protocolVersion < MIN_PROTOCOL_VERSION || protocolVersion > PROTOCOL_VERSION) {
+    const supported =
+      MIN_PROTOCOL_VERSION === PROTOCOL_VERSION ? `${PROTOCOL_VERSION}` : `${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`;
+    throw new Error(
+      `Incompatible protocol version ${protocolVersion}: this host supports version ${supported}. ` +
+        (protocolVersion > PROTOCOL_VERSION ? 'Update the MCP host.' : 'Update the extension.'),
+    );
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Rate limiting and concurrency caps for MCP tool calls
+ *
+ * Every tool call ends up on the single browser behind NativeMessaging, so calls are
+ * admitted only while they stay within the configured global and per-session limits.
+ */
+
+/**
+ * Limits applied to tool calls; unset limits are not enforced
+ */
+export interface ToolCallLimits {
+  /**
+   * Maximum number of tool calls running at the same time across all sessions
+   */
+  maxConcurrentCalls?: number;
+
+  /**
+   * Maximum number of tool calls running at the same time within one session
+   */
+  maxConcurrentCallsPerSession?: number;
+
+  /**
+   * Maximum number of calls to the same tool per minute across all sessions
+   */
+  callsPerMinutePerTool?: number;
+
+  /**
+   * Maximum number of calls to the same tool per minute within one session
+   */
+  callsPerMinutePerToolPerSession?: number;
+}
+
+/**
+ * Result of asking the limiter to admit a tool call
+ */
+export type ToolCallAdmission = { admitted: true; release: () => void } | { admitted: false; reason: string };
+
+const WINDOW_MS = 60000;
+
+/**
+ * Admits or rejects tool calls according to the configured limits
+ */
+export class ToolCallLimiter {
+  private limits: ToolCallLimits;
+  private activeCalls = 0;
+  private activeCallsBySession: Map<string, number> = new Map();
+  private callTimes: Map<string, number[]> = new Map();
+  private lastPrune = Date.now();
+
+  /**
+   * Creates a new limiter
+   * @param limits The limits to enforce
+   */
+  constructor(limits: ToolCallLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Tries to admit a tool call
+   * @param tool The tool name
+   * @param sessionId The calling session, if known
+   * @returns A release function to call when the call completes, or the reason for rejection
+   */
+  public acquire(tool: string, sessionId?: string): ToolCallAdmission {
+    const { maxConcurrentCalls, maxConcurrentCallsPerSession, callsPerMinutePerTool, callsPerMinutePerToolPerSession } =
+      this.limits;
+    const now = Date.now();
+    this.pruneExpiredCalls(now);
+
+    if (maxConcurrentCalls !== undefined && this.activeCalls >= maxConcurrentCalls) {
+      return { admitted: false, reason: `Too many concurrent tool calls (limit: ${maxConcurrentCalls})` };
+    }
+
+    const sessionCalls = sessionId ? (this.activeCallsBySession.get(sessionId) ?? 0) : 0;
+    if (sessionId && maxConcurrentCallsPerSession !== undefined && sessionCalls >= maxConcurrentCallsPerSession) {
+      return {
+        admitted: false,
+        reason: `Too many concurrent tool calls in this session (limit: ${maxConcurrentCallsPerSession})`,
+      };
+    }
+
+    const toolKey = `tool:${tool}`;
+    if (callsPerMinutePerTool !== undefined && this.countRecentCalls(toolKey, now) >= callsPerMinutePerTool) {
+      return { admitted: false, reason: `Too many ${tool} calls (limit: ${callsPerMinutePerTool} per minute)` };
+    }
+
+    const sessionToolKey = `session:${sessionId}:tool:${tool}`;
+    if (
+      sessionId &&
+      callsPerMinutePerToolPerSession !== undefined &&
+      this.countRecentCalls(sessionToolKey, now) >= callsPerMinutePerToolPerSession
+    ) {
+      return {
+        admitted: false,
+        reason: `Too many ${tool} calls in this session (limit: ${callsPerMinutePerToolPerSession} per minute)`,
+      };
+    }
+
+    // Admitted: record the call against every limit it counts towards
+    this.recordCall(toolKey, now);
+    if (sessionId) {
+      this.recordCall(sessionToolKey, now);
+      this.activeCallsBySession.set(sessionId, sessionCalls + 1);
+    }
+    this.activeCalls++;
+
+    let released = false;
+    const release = () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      this.activeCalls--;
+      if (sessionId) {
+        const remaining = (this.activeCallsBySession.get(sessionId) ?? 1) - 1;
+        if (remaining > 0) {
+          this.activeCallsBySession.set(sessionId, remaining);
+        } else {
+          this.activeCallsBySession.delete(sessionId);
+        }
+      }
+    };
+
+    return { admitted: true, release };
+  }
+
+  /**
+   * Counts the calls recorded under a key within the last minute, dropping older ones
+   */
+  private countRecentCalls(key: string, now: number): number {
+    const times = this.callTimes.get(key);
+    if (!times) {
+      return 0;
+    }
+
+    while (times.length > 0 && now - times[0] >= WINDOW_MS) {
+      times.shift();
+    }
+
+    if (times.length === 0) {
+      this.callTimes.delete(key);
+    }
+
+    return times.length;
+  }
+
+  /**
+   * Drops the windows of sessions and tools that have not been called for a minute
+   *
+   * Keys are otherwise only pruned when checked again, which never happens for closed sessions.
+   */
+  private pruneExpiredCalls(now: number) {
+    if (now - this.lastPrune < WINDOW_MS) {
+      return;
+    }
+
+    this.lastPrune = now;
+    for (const key of Array.from(this.callTimes.keys())) {
+      this.countRecentCalls(key, now);
+    }
+  }
+
+  /**
+   * Records a call under a key
+   */
+  private recordCall(key: string, now: number) {
+    const times = this.callTimes.get(key);
+    if (times) {
+      times.push(now);
+    } else {
+      this.callTimes.set(key, [now]);
+    }
+  }
+}
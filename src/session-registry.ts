@@ -0,0 +1,214 @@
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { type Implementation } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from './logger.js';
+import { activeSessions } from './metrics.js';
+
+/**
+ * Transports that can be attached to an MCP session
+ */
+export type McpTransport = SSEServerTransport | StreamableHTTPServerTransport;
+
+/**
+ * Kind of transport an MCP session is connected through
+ */
+export type McpTransportType = 'streamable-http' | 'sse';
+
+/**
+ * Public information about an MCP session
+ */
+export interface McpSessionInfo {
+  id: string;
+  transportType: McpTransportType;
+  createdAt: number;
+  lastActivity: number;
+  clientInfo?: Implementation;
+}
+
+/**
+ * An MCP session tracked by the registry
+ */
+interface McpSession extends McpSessionInfo {
+  transport: McpTransport;
+}
+
+/**
+ * Options for the session registry
+ */
+export interface SessionRegistryOptions {
+  /**
+   * Idle time in milliseconds after which a session is closed; 0 disables eviction
+   */
+  idleTimeout: number;
+}
+
+/**
+ * Keeps track of connected MCP sessions and evicts the ones that went idle
+ */
+export class SessionRegistry {
+  private logger = createLogger('session-registry');
+  private sessions: Map<string, McpSession> = new Map();
+  private idleTimeout: number;
+  private evictionTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a new session registry
+   * @param options The registry options
+   */
+  constructor(options: SessionRegistryOptions) {
+    this.idleTimeout = options.idleTimeout;
+  }
+
+  /**
+   * Registers a new session
+   * @param id The session ID
+   * @param transportType The kind of transport
+   * @param transport The transport serving the session
+   */
+  public add(id: string, transportType: McpTransportType, transport: McpTransport): void {
+    const now = Date.now();
+    this.sessions.set(id, { id, transportType, transport, createdAt: now, lastActivity: now });
+    activeSessions.inc({ transport: transportType });
+    this.logger.debug(`Session added: ${id} (${transportType})`);
+  }
+
+  /**
+   * Gets the transport of a session
+   * @param id The session ID
+   * @returns The transport, or undefined if the session is unknown
+   */
+  public getTransport(id: string): McpTransport | undefined {
+    return this.sessions.get(id)?.transport;
+  }
+
+  /**
+   * Records activity on a session, postponing its eviction
+   * @param id The session ID
+   */
+  public touch(id: string): void {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+  }
+
+  /**
+   * Stores the client information sent with the initialize request
+   * @param id The session ID
+   * @param clientInfo The client name and version
+   */
+  public setClientInfo(id: string, clientInfo: Implementation): void {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.clientInfo = clientInfo;
+    }
+  }
+
+  /**
+   * Removes a session without closing its transport
+   * @param id The session ID
+   */
+  public remove(id: string): void {
+    const session = this.sessions.get(id);
+    if (session) {
+      this.sessions.delete(id);
+      activeSessions.dec({ transport: session.transportType });
+      this.logger.debug(`Session removed: ${id}`);
+    }
+  }
+
+  /**
+   * Lists all active sessions
+   * @returns Information about each session
+   */
+  public list(): McpSessionInfo[] {
+    return Array.from(this.sessions.values()).map(({ transport, ...info }) => ({ ...info }));
+  }
+
+  /**
+   * Number of active sessions
+   */
+  public get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Closes a session and its transport
+   * @param id The session ID
+   * @returns True if the session existed, false otherwise
+   */
+  public async close(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    this.remove(id);
+
+    try {
+      await session.transport.close();
+    } catch (error) {
+      this.logger.error(`Error closing transport for session ${id}:`, error);
+    }
+
+    this.logger.info(`Session closed: ${id}`);
+    return true;
+  }
+
+  /**
+   * Closes all sessions
+   */
+  public async closeAll(): Promise<void> {
+    const ids = Array.from(this.sessions.keys());
+    if (ids.length > 0) {
+      this.logger.info(`Closing ${ids.length} active session(s)`);
+    }
+
+    for (const id of ids) {
+      await this.close(id);
+    }
+  }
+
+  /**
+   * Starts periodically evicting idle sessions
+   */
+  public startEviction(): void {
+    if (this.idleTimeout <= 0 || this.evictionTimer) {
+      return;
+    }
+
+    const interval = Math.min(this.idleTimeout, 60000);
+    this.evictionTimer = setInterval(() => {
+      this.evictIdleSessions().catch(error => {
+        this.logger.error('Error evicting idle sessions:', error);
+      });
+    }, interval);
+
+    // Don't keep the process alive just for eviction
+    this.evictionTimer.unref();
+  }
+
+  /**
+   * Stops evicting idle sessions
+   */
+  public stopEviction(): void {
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+  }
+
+  /**
+   * Closes every session that has been idle longer than the idle timeout
+   */
+  private async evictIdleSessions(): Promise<void> {
+    const now = Date.now();
+
+    for (const session of Array.from(this.sessions.values())) {
+      if (now - session.lastActivity > this.idleTimeout) {
+        this.logger.info(`Evicting idle session ${session.id} (idle for ${now - session.lastActivity}ms)`);
+        await this.close(session.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Click element tool
+ *
+ * This tool clicks a single element of the current page, without asking the agent to plan the step.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import {
+  describePage,
+  describeTarget,
+  elementTargetShape,
+  NAVIGATION_TIMEOUT,
+  PageInfoSchema,
+  parseRpcResult,
+  toElementTarget,
+} from './page.js';
+
+/**
+ * Result of the click_element RPC: the page before and after the click
+ */
+const ClickResultSchema = z.object({
+  before: PageInfoSchema,
+  after: PageInfoSchema,
+});
+
+/**
+ * Implementation of the click_element tool
+ */
+export class ClickElementTool {
+  private logger = createLogger('click_element_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'click_element';
+
+  /**
+   * Tool description
+   */
+  public description =
+    'Click an element of the current page, selected by its index in the browser://current/state DOM snapshot or by CSS selector';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['click_element'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = elementTargetShape;
+
+  /**
+   * Execute the click_element tool
+   * @param args Tool arguments with the element index or selector
+   * @param extra Request context; cancelling the MCP request cancels the click
+   * @returns Promise resolving to the URL and title after the click
+   */
+  public execute = async (
+    args: { index?: number; selector?: string },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    let text: string;
+    try {
+      const target = toElementTarget(args);
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'click_element',
+          params: target,
+        },
+        // The page after the click is only reported once a navigation it started has loaded
+        { timeout: NAVIGATION_TIMEOUT, signal: extra?.signal },
+      );
+      this.logger.info('call click_element result:', result);
+
+      const { before, after } = parseRpcResult('click_element', ClickResultSchema, result);
+      const changed = before.url !== after.url || before.title !== after.title;
+      text = changed
+        ? `Clicked ${describeTarget(target)}. Page changed from ${describePage(before)} to ${describePage(after)}`
+        : `Clicked ${describeTarget(target)}. Page unchanged: ${describePage(after)}`;
+    } catch (error) {
+      this.logger.error('click_element failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Close tab tool
+ *
+ * This tool closes a browser tab, the active one unless another is given.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeTab, parseRpcResult, TabInfoSchema } from './page.js';
+
+/**
+ * Result of the close_tab RPC: the closed tab and the tab that is active afterwards, if any
+ */
+const CloseTabResultSchema = z.object({
+  closedTabId: z.number().int(),
+  activeTab: TabInfoSchema.optional(),
+});
+
+/**
+ * Implementation of the close_tab tool
+ */
+export class CloseTabTool {
+  private logger = createLogger('close_tab_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'close_tab';
+
+  /**
+   * Tool description
+   */
+  public description = 'Close a browser tab by its id from list_tabs, or the active tab';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['close_tab'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    tabId: z.number().int().optional().describe('Id of the tab, as reported by list_tabs (default: the active tab)'),
+  };
+
+  /**
+   * Execute the close_tab tool
+   * @param args Tool arguments with the optional tab id
+   * @param extra Request context; cancelling the MCP request cancels the request to the extension
+   * @returns Promise resolving to the closed tab and the new active tab
+   */
+  public execute = async (
+    args: { tabId?: number },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    let text: string;
+    try {
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'close_tab',
+          params: {
+            tabId: args.tabId,
+          },
+        },
+        { signal: extra?.signal },
+      );
+      this.logger.info('call close_tab result:', result);
+
+      const { closedTabId, activeTab } = parseRpcResult('close_tab', CloseTabResultSchema, result);
+      text = activeTab
+        ? `Closed tab ${closedTabId}. Active ${describeTab(activeTab)}`
+        : `Closed tab ${closedTabId}. No tabs are left open`;
+    } catch (error) {
+      this.logger.error('close_tab failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  };
+}
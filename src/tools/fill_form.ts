@@ -0,0 +1,159 @@
+/**
+ * Fill form tool
+ *
+ * This tool enters values into several fields of the current page in a single extension request.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { RpcError, RpcErrorCode, toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import {
+  describeTarget,
+  ElementTarget,
+  FieldResult,
+  fieldKeyToTarget,
+  FieldResultSchema,
+  NAVIGATION_TIMEOUT,
+  parseRpcResult,
+} from './page.js';
+
+/**
+ * Result of the fill_form RPC: the outcome of each field, in the order they were sent
+ */
+const FillFormResultSchema = z.object({
+  fields: z.array(FieldResultSchema),
+});
+
+/**
+ * Describes the outcome for one field, e.g. `element 3: ok, value "Ada"`
+ */
+function describeFieldResult(target: ElementTarget, result: FieldResult): string {
+  if (!result.success) {
+    return `${describeTarget(target)}: failed, ${result.error || 'no reason given'}`;
+  }
+
+  return result.value === undefined
+    ? `${describeTarget(target)}: ok`
+    : `${describeTarget(target)}: ok, value ${JSON.stringify(result.value)}`;
+}
+
+/**
+ * Counts fields for the summary, e.g. `1 field`, `3 fields`
+ */
+function countFields(count: number): string {
+  return count === 1 ? '1 field' : `${count} fields`;
+}
+
+/**
+ * Implementation of the fill_form tool
+ */
+export class FillFormTool {
+  private logger = createLogger('fill_form_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'fill_form';
+
+  /**
+   * Tool description
+   */
+  public description = 'Fill several fields of the current page at once and report the outcome for each field';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['fill_form'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    fields: z
+      .record(z.string(), z.string())
+      .describe(
+        'Values to enter, keyed by field: the index in the browser://current/state DOM snapshot (e.g. "12") or a CSS selector (e.g. "#email"). For select elements and checkboxes, the value is the option to choose or "true"/"false"',
+      ),
+  };
+
+  /**
+   * Execute the fill_form tool
+   * @param args Tool arguments with the values by field
+   * @param extra Request context; cancelling the MCP request cancels filling the form
+   * @returns Promise resolving to the outcome for each field
+   */
+  public execute = async (
+    args: { fields: Record<string, string> },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    const keys = Object.keys(args.fields);
+    this.logger.info('execute fields:', keys);
+
+    const targets = keys.map(fieldKeyToTarget);
+    let lines: string[];
+    let failed: number;
+    try {
+      if (keys.length === 0) {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'Specify at least one field');
+      }
+
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'fill_form',
+          params: {
+            fields: keys.map((key, i) => ({ ...targets[i], value: args.fields[key] })),
+          },
+        },
+        // Long forms take a while to fill field by field
+        { timeout: NAVIGATION_TIMEOUT, signal: extra?.signal },
+      );
+      const { fields } = parseRpcResult('fill_form', FillFormResultSchema, result);
+      // The values echo what was entered, which may include passwords
+      this.logger.info('call fill_form result, success by field:', fields.map(field => field.success));
+      if (fields.length !== keys.length) {
+        throw new RpcError(
+          RpcErrorCode.INTERNAL_ERROR,
+          `Unexpected fill_form result: ${fields.length} field results for ${keys.length} fields`,
+        );
+      }
+
+      lines = fields.map((field, i) => `- ${describeFieldResult(targets[i], field)}`);
+      failed = fields.filter(field => !field.success).length;
+    } catch (error) {
+      this.logger.error('fill_form failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    const summary =
+      failed === 0
+        ? `Filled ${countFields(keys.length)}`
+        : `Filled ${keys.length - failed} of ${countFields(keys.length)}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: [summary, ...lines].join('\n'),
+        },
+      ],
+      // Partially filled forms need the caller's attention
+      isError: failed > 0,
+    };
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Go back tool
+ *
+ * This tool goes back one page in the active tab's history, like the browser's back button.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeNavigation, NAVIGATION_TIMEOUT, NavigationResultSchema, parseRpcResult } from './page.js';
+
+/**
+ * Implementation of the go_back tool
+ */
+export class GoBackTool {
+  private logger = createLogger('go_back_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'go_back';
+
+  /**
+   * Tool description
+   */
+  public description = 'Go back to the previous page in the history of the active tab';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['go_back'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    waitUntilLoaded: z
+      .boolean()
+      .optional()
+      .describe('Wait until the page has finished loading before returning (default: true)'),
+  };
+
+  /**
+   * Execute the go_back tool
+   * @param args Tool arguments with the loading option
+   * @param extra Request context; cancelling the MCP request cancels waiting for the page
+   * @returns Promise resolving to the final URL, title and HTTP status
+   */
+  public execute = async (
+    args: { waitUntilLoaded?: boolean },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    let text: string;
+    try {
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'go_back',
+          params: {
+            waitUntilLoaded: args.waitUntilLoaded ?? true,
+          },
+        },
+        { timeout: NAVIGATION_TIMEOUT, signal: extra?.signal },
+      );
+      this.logger.info('call go_back result:', result);
+
+      text = `Went back to ${describeNavigation(parseRpcResult('go_back', NavigationResultSchema, result))}`;
+    } catch (error) {
+      this.logger.error('go_back failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Go forward tool
+ *
+ * This tool goes forward one page in the active tab's history, like the browser's forward button.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeNavigation, NAVIGATION_TIMEOUT, NavigationResultSchema, parseRpcResult } from './page.js';
+
+/**
+ * Implementation of the go_forward tool
+ */
+export class GoForwardTool {
+  private logger = createLogger('go_forward_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'go_forward';
+
+  /**
+   * Tool description
+   */
+  public description = 'Go forward to the next page in the history of the active tab';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['go_forward'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    waitUntilLoaded: z
+      .boolean()
+      .optional()
+      .describe('Wait until the page has finished loading before returning (default: true)'),
+  };
+
+  /**
+   * Execute the go_forward tool
+   * @param args Tool arguments with the loading option
+   * @param extra Request context; cancelling the MCP request cancels waiting for the page
+   * @returns Promise resolving to the final URL, title and HTTP status
+   */
+  public execute = async (
+    args: { waitUntilLoaded?: boolean },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    let text: string;
+    try {
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'go_forward',
+          params: {
+            waitUntilLoaded: args.waitUntilLoaded ?? true,
+          },
+        },
+        { timeout: NAVIGATION_TIMEOUT, signal: extra?.signal },
+      );
+      this.logger.info('call go_forward result:', result);
+
+      text = `Went forward to ${describeNavigation(parseRpcResult('go_forward', NavigationResultSchema, result))}`;
+    } catch (error) {
+      this.logger.error('go_forward failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  };
+}
@@ -1,3 +1,14 @@
 // Export individual tools
+export { ClickElementTool } from './click_element.js';
+export { CloseTabTool } from './close_tab.js';
+export { FillFormTool } from './fill_form.js';
+export { GoBackTool } from './go_back.js';
+export { GoForwardTool } from './go_forward.js';
+export { ListTabsTool } from './list_tabs.js';
 export { NavigateToTool } from './navigate_to.js';
+export { OpenTabTool } from './open_tab.js';
+export { ReloadPageTool } from './reload_page.js';
 export { RunTaskTool } from './run_task.js';
+export { SwitchTabTool } from './switch_tab.js';
+export { TakeScreenshotTool } from './take_screenshot.js';
+export { TypeTextTool } from './type_text.js';
@@ -0,0 +1,103 @@
+/**
+ * List tabs tool
+ *
+ * This tool lists the open browser tabs, so agents can pick one to switch to or close.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeTab, parseRpcResult, TabInfoSchema } from './page.js';
+
+/**
+ * Result of the list_tabs RPC: the open tabs, in window order
+ */
+const ListTabsResultSchema = z.object({
+  tabs: z.array(TabInfoSchema),
+});
+
+/**
+ * Implementation of the list_tabs tool
+ */
+export class ListTabsTool {
+  private logger = createLogger('list_tabs_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'list_tabs';
+
+  /**
+   * Tool description
+   */
+  public description = 'List the open browser tabs with their ids, URLs and titles';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['list_tabs'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {};
+
+  /**
+   * Execute the list_tabs tool
+   * @param args Tool arguments (none)
+   * @param extra Request context; cancelling the MCP request cancels the request to the extension
+   * @returns Promise resolving to one line per tab
+   */
+  public execute = async (
+    args: Record<string, never>,
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    let text: string;
+    try {
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'list_tabs',
+          params: {},
+        },
+        { signal: extra?.signal },
+      );
+      this.logger.info('call list_tabs result:', result);
+
+      const { tabs } = parseRpcResult('list_tabs', ListTabsResultSchema, result);
+      text =
+        tabs.length === 0
+          ? 'No tabs are open'
+          : tabs.map(tab => `- ${describeTab(tab)}${tab.active ? ' (active)' : ''}`).join('\n');
+    } catch (error) {
+      this.logger.error('list_tabs failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  };
+}
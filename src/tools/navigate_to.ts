@@ -5,9 +5,19 @@
  */
 
 import { z } from 'zod';
-import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { RpcError, RpcErrorCode, toolErrorResult } from '../errors.js';
 import { NativeMessaging } from '../messaging.js';
 import { createLogger } from '../logger.js';
+import { describeNavigation, NAVIGATION_TIMEOUT, NavigationResultSchema, parseRpcResult } from './page.js';
+
+/**
+ * Whether a navigate_to result reports where the navigation ended, rather than a bare acknowledgement
+ */
+function isNavigationResult(result: unknown): boolean {
+  return typeof result === 'object' && result !== null && 'url' in result;
+}
 
 /**
  * Implementation of the navigate_to tool
@@ -25,6 +35,11 @@ export class NavigateToTool {
    */
   public description = 'Navigate to a specified URL';
 
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['navigate_to'];
+
   /**
    * Private reference to the NativeMessaging instance
    */
@@ -48,30 +63,48 @@ export class NavigateToTool {
   /**
    * Execute the navigate_to tool
    * @param args Tool arguments containing the URL
-   * @param callback Browser action callback
-   * @returns Promise resolving to the action result
+   * @param extra Request context; cancelling the MCP request cancels the navigation
+   * @returns Promise resolving to the final URL, title and HTTP status, when the extension reports them
    */
-  public execute = async (args: { url: string }): Promise<CallToolResult> => {
+  public execute = async (
+    args: { url: string },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
     this.logger.info('execute args:', args);
 
     if (!args.url) {
-      throw new Error('URL is required for navigation');
+      return toolErrorResult(this.name, new RpcError(RpcErrorCode.INVALID_PARAMS, 'URL is required for navigation'));
     }
 
-    const result = await this.messaging.rpcRequest({
-      method: 'navigate_to',
-      params: {
-        url: args.url,
-      },
-    });
+    let text: string;
+    try {
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'navigate_to',
+          params: {
+            url: args.url,
+          },
+        },
+        { timeout: NAVIGATION_TIMEOUT, signal: extra?.signal },
+      );
+      this.logger.info('call navigate_to result:', result);
 
-    this.logger.info('call navigate_to result:', result);
+      if (isNavigationResult(result)) {
+        text = `Navigated to ${describeNavigation(parseRpcResult('navigate_to', NavigationResultSchema, result))}`;
+      } else {
+        // Extensions predating navigation results only acknowledge the request, e.g. with 'success'
+        text = `navigate_to ${args.url} ok`;
+      }
+    } catch (error) {
+      this.logger.error('navigate_to failed:', error);
+      return toolErrorResult(this.name, error);
+    }
 
     return {
       content: [
         {
           type: 'text',
-          text: `navigate_to ${args.url} ok`,
+          text,
         },
       ],
     };
@@ -0,0 +1,106 @@
+/**
+ * Open tab tool
+ *
+ * This tool opens a new browser tab, optionally loading a URL in it.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeTab, parseRpcResult, TabInfoSchema } from './page.js';
+
+/**
+ * Result of the open_tab RPC: the new tab
+ */
+const OpenTabResultSchema = z.object({
+  tab: TabInfoSchema,
+});
+
+/**
+ * Implementation of the open_tab tool
+ */
+export class OpenTabTool {
+  private logger = createLogger('open_tab_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'open_tab';
+
+  /**
+   * Tool description
+   */
+  public description = 'Open a new browser tab, optionally at a URL, and return its id';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['open_tab'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    url: z.string().optional().describe('URL to load in the new tab (default: a blank tab)'),
+    active: z.boolean().optional().describe('Switch to the new tab (default: true)'),
+  };
+
+  /**
+   * Execute the open_tab tool
+   * @param args Tool arguments with the optional URL and whether to switch to the tab
+   * @param extra Request context; cancelling the MCP request cancels the request to the extension
+   * @returns Promise resolving to the new tab
+   */
+  public execute = async (
+    args: { url?: string; active?: boolean },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    let text: string;
+    try {
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'open_tab',
+          params: {
+            url: args.url,
+            active: args.active ?? true,
+          },
+        },
+        { signal: extra?.signal },
+      );
+      this.logger.info('call open_tab result:', result);
+
+      const { tab } = parseRpcResult('open_tab', OpenTabResultSchema, result);
+      text = `Opened ${describeTab(tab)}`;
+    } catch (error) {
+      this.logger.error('open_tab failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  };
+}
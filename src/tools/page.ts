@@ -0,0 +1,149 @@
+/**
+ * Helpers shared by the low-level page tools
+ *
+ * Low-level tools address elements the way the extension's DOM snapshot does: by the
+ * index shown in the `browser://current/state` resource, or by CSS selector.
+ */
+
+import { z } from 'zod';
+import { RpcError, RpcErrorCode } from '../errors.js';
+
+/**
+ * Input schema fields selecting an element
+ */
+export const elementTargetShape = {
+  index: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Index of the element in the DOM snapshot of the browser://current/state resource'),
+  selector: z.string().min(1).optional().describe('CSS selector of the element, if no index is given'),
+};
+
+/**
+ * Element a low-level RPC acts on, as sent to the extension
+ */
+export type ElementTarget = { index: number } | { selector: string };
+
+/**
+ * Builds the element target of a tool call
+ * @param args Tool arguments with an index or a selector
+ * @throws RpcError with INVALID_PARAMS unless exactly one of them is given
+ */
+export function toElementTarget(args: { index?: number; selector?: string }): ElementTarget {
+  if (args.index !== undefined && args.selector !== undefined) {
+    throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'Specify either index or selector, not both');
+  }
+
+  if (args.index !== undefined) {
+    return { index: args.index };
+  }
+
+  if (args.selector !== undefined) {
+    return { selector: args.selector };
+  }
+
+  throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'Specify the element by index or selector');
+}
+
+/**
+ * Builds the element target of a form field key: digits are an index, anything else a selector
+ * @param key Key of the field in the tool arguments
+ */
+export function fieldKeyToTarget(key: string): ElementTarget {
+  return /^\d+$/.test(key) ? { index: Number(key) } : { selector: key };
+}
+
+/**
+ * Outcome of entering a value into one field, as reported by the extension
+ */
+export const FieldResultSchema = z.object({
+  success: z.boolean(),
+  value: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export type FieldResult = z.infer<typeof FieldResultSchema>;
+
+/**
+ * Describes an element target for tool results, e.g. `element 12` or `element "#submit"`
+ */
+export function describeTarget(target: ElementTarget): string {
+  return 'index' in target ? `element ${target.index}` : `element ${JSON.stringify(target.selector)}`;
+}
+
+/**
+ * Page reported by the extension after an action
+ */
+export const PageInfoSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+});
+
+export type PageInfo = z.infer<typeof PageInfoSchema>;
+
+/**
+ * Describes a page for tool results, e.g. `"Example Domain" <https://example.com/>`
+ */
+export function describePage(page: PageInfo): string {
+  return `${JSON.stringify(page.title)} <${page.url}>`;
+}
+
+/**
+ * Loading can take a while, so RPCs that navigate or may trigger a navigation (clicks,
+ * form submissions) wait longer than the default RPC timeout
+ */
+export const NAVIGATION_TIMEOUT = 30000;
+
+/**
+ * Result of a navigation RPC: the page once loading settled and its HTTP status, if known
+ */
+export const NavigationResultSchema = PageInfoSchema.extend({
+  status: z.number().int().nullable().optional(),
+});
+
+export type NavigationResult = z.infer<typeof NavigationResultSchema>;
+
+/**
+ * Describes where a navigation ended, e.g. `"Example Domain" <https://example.com/> (HTTP 200)`
+ */
+export function describeNavigation(result: NavigationResult): string {
+  const status = typeof result.status === 'number' ? `HTTP ${result.status}` : 'HTTP status unknown';
+  return `${describePage(result)} (${status})`;
+}
+
+/**
+ * Browser tab reported by the extension
+ */
+export const TabInfoSchema = PageInfoSchema.extend({
+  id: z.number().int(),
+  active: z.boolean(),
+});
+
+export type TabInfo = z.infer<typeof TabInfoSchema>;
+
+/**
+ * Describes a tab for tool results, e.g. `tab 4: "Example Domain" <https://example.com/>`
+ */
+export function describeTab(tab: TabInfo): string {
+  return `tab ${tab.id}: ${describePage(tab)}`;
+}
+
+/**
+ * Validates the result of a low-level RPC
+ * @param method The RPC method, for the error message
+ * @param schema Schema of the expected result
+ * @param result The result sent by the extension
+ * @throws RpcError with INTERNAL_ERROR if the result does not match
+ */
+export function parseRpcResult<T extends z.ZodTypeAny>(method: string, schema: T, result: unknown): z.infer<T> {
+  const parsed = schema.safeParse(result);
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'result'}: ${issue.message}`);
+    throw new RpcError(RpcErrorCode.INTERNAL_ERROR, `Unexpected ${method} result: ${issues.join('; ')}`);
+  }
+
+  return parsed.data;
+}
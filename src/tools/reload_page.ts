@@ -0,0 +1,101 @@
+/**
+ * Reload page tool
+ *
+ * This tool reloads the page of the active tab, optionally bypassing the cache.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeNavigation, NAVIGATION_TIMEOUT, NavigationResultSchema, parseRpcResult } from './page.js';
+
+/**
+ * Implementation of the reload_page tool
+ */
+export class ReloadPageTool {
+  private logger = createLogger('reload_page_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'reload_page';
+
+  /**
+   * Tool description
+   */
+  public description = 'Reload the current page, optionally bypassing the cache';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['reload_page'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    hard: z.boolean().optional().describe('Bypass the browser cache, like Shift+Reload (default: false)'),
+    waitUntilLoaded: z
+      .boolean()
+      .optional()
+      .describe('Wait until the page has finished loading before returning (default: true)'),
+  };
+
+  /**
+   * Execute the reload_page tool
+   * @param args Tool arguments with the cache and loading options
+   * @param extra Request context; cancelling the MCP request cancels waiting for the page
+   * @returns Promise resolving to the final URL, title and HTTP status
+   */
+  public execute = async (
+    args: { hard?: boolean; waitUntilLoaded?: boolean },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    let text: string;
+    try {
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'reload_page',
+          params: {
+            hard: args.hard ?? false,
+            waitUntilLoaded: args.waitUntilLoaded ?? true,
+          },
+        },
+        { timeout: NAVIGATION_TIMEOUT, signal: extra?.signal },
+      );
+      this.logger.info('call reload_page result:', result);
+
+      text = `Reloaded ${describeNavigation(parseRpcResult('reload_page', NavigationResultSchema, result))}`;
+    } catch (error) {
+      this.logger.error('reload_page failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  };
+}
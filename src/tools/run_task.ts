@@ -16,9 +16,17 @@
  */
 
 import { z } from 'zod';
-import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolResult,
+  ProgressToken,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { RpcError, RpcErrorCode } from '../errors.js';
 import { NativeMessaging } from '../messaging.js';
 import { createLogger } from '../logger.js';
+import { RpcProgress } from '../types.js';
 
 /**
  * Implementation of the run_task tool
@@ -36,6 +44,11 @@ export class RunTaskTool {
    */
   public description = 'Request the agent to complete a task within the browser environment';
 
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['run_task'];
+
   /**
    * Tool capabilities explanation - provides detailed information about what this tool can do
    */
@@ -75,9 +88,13 @@ export class RunTaskTool {
   /**
    * Execute the run_task tool
    * @param args Tool arguments containing the task and optional context
+   * @param extra Request context; cancelling the MCP request cancels the task in the extension
    * @returns Promise resolving to the action result
    */
-  public execute = async (args: { task: string; context?: string; timeout?: number }): Promise<CallToolResult> => {
+  public execute = async (
+    args: { task: string; context?: string; timeout?: number },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
     const startTime = Date.now();
     this.logger.info('execute args:', args);
 
@@ -88,6 +105,9 @@ export class RunTaskTool {
     // Use the provided timeout or default to 300 seconds
     const timeout = args.timeout || 300000;
 
+    // Relay the extension's step updates when the client asked for progress
+    const progressToken = extra?._meta?.progressToken;
+
     try {
       const result = await this.messaging.rpcRequest(
         {
@@ -97,7 +117,12 @@ export class RunTaskTool {
             context: args.context || '',
           },
         },
-        { timeout },
+        {
+          timeout,
+          signal: extra?.signal,
+          onProgress:
+            progressToken === undefined ? undefined : progress => this.notifyProgress(extra!, progressToken, progress),
+        },
       );
 
       const executionTime = Date.now() - startTime;
@@ -119,13 +144,35 @@ export class RunTaskTool {
         content: [
           {
             type: 'text',
-            text: this.formatErrorResult(args.task, error, executionTime),
+            text: this.formatErrorResult(args.task, RpcError.from(error), executionTime),
           },
         ],
+        isError: true,
       };
     }
   };
 
+  /**
+   * Forwards task progress to the client as a progress notification
+   * @param extra Request context of the tool call
+   * @param progressToken Progress token sent by the client
+   * @param progress Progress reported by the extension
+   */
+  private notifyProgress(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    progressToken: ProgressToken,
+    progress: RpcProgress,
+  ) {
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, ...progress },
+      })
+      .catch(error => {
+        this.logger.warn('Failed to send progress notification:', error);
+      });
+  }
+
   /**
    * Format successful task execution result as AI-friendly markdown
    * @param task The task description
@@ -217,7 +264,7 @@ export class RunTaskTool {
    * @param executionTime Execution time in milliseconds
    * @returns Formatted markdown string
    */
-  private formatErrorResult(task: string, error: any, executionTime: number): string {
+  private formatErrorResult(task: string, error: RpcError, executionTime: number): string {
     const lines = [
       '# Task Execution Result',
       '',
@@ -229,9 +276,8 @@ export class RunTaskTool {
       ''
     ];
 
-    // Determine error type and provide appropriate message
-    if (error instanceof Error) {
-      if (error.message.includes('timeout') || error.message.includes('RPC request timeout')) {
+    switch (error.code) {
+      case RpcErrorCode.TIMEOUT:
         lines.push('**Error Type**: Timeout');
         lines.push(`**Message**: The task execution timed out after ${executionTime}ms. This may indicate:`);
         lines.push('- The task is taking longer than expected to complete');
@@ -242,7 +288,8 @@ export class RunTaskTool {
         lines.push('- Try breaking the task into smaller, more specific steps');
         lines.push('- Increase the timeout value if the task legitimately needs more time');
         lines.push('- Check if the browser extension is properly loaded and functioning');
-      } else if (error.message.includes('connection') || error.message.includes('ECONNREFUSED')) {
+        break;
+      case RpcErrorCode.NOT_CONNECTED:
         lines.push('**Error Type**: Connection Error');
         lines.push('**Message**: Unable to communicate with the browser extension. This may indicate:');
         lines.push('- The browser extension is not installed or enabled');
@@ -253,26 +300,43 @@ export class RunTaskTool {
         lines.push('- Verify the browser extension is installed and enabled');
         lines.push('- Check that Chrome/Chromium is running');
         lines.push('- Restart the browser and try again');
-      } else {
+        break;
+      case RpcErrorCode.CANCELLED:
+        lines.push('**Error Type**: Cancelled');
+        lines.push('**Message**: The task was cancelled before it completed.');
+        break;
+      case RpcErrorCode.METHOD_NOT_FOUND:
+        lines.push('**Error Type**: Not Supported');
+        lines.push(`**Message**: The browser extension does not support running tasks: ${error.message}`);
+        lines.push('');
+        lines.push('**Suggestions**:');
+        lines.push('- Update the browser extension to a version that supports run_task');
+        break;
+      case RpcErrorCode.POLICY_DENIED:
+        lines.push('**Error Type**: Policy Denied');
+        lines.push(`**Message**: The browser extension refused the task: ${error.message}`);
+        lines.push('');
+        lines.push('**Suggestions**:');
+        lines.push('- Check the extension settings for blocked sites or actions');
+        lines.push('- Do not retry the same task unchanged');
+        break;
+      case RpcErrorCode.TASK_FAILED:
+        lines.push('**Error Type**: Task Failed');
+        lines.push(`**Message**: ${error.message}`);
+        break;
+      default:
         lines.push('**Error Type**: Execution Error');
         lines.push(`**Message**: ${error.message}`);
-        
-        if (error.stack) {
-          lines.push('');
-          lines.push('### Stack Trace');
-          lines.push('```');
-          lines.push(error.stack);
-          lines.push('```');
-        }
-      }
-    } else if (typeof error === 'object' && error !== null) {
-      lines.push('**Error Type**: Structured Error');
+    }
+
+    lines.push(`**Error Code**: ${error.codeName} (${error.code})`);
+
+    if (error.data !== undefined) {
+      lines.push('');
+      lines.push('### Error Data');
       lines.push('```json');
-      lines.push(JSON.stringify(error, null, 2));
+      lines.push(JSON.stringify(error.data, null, 2));
       lines.push('```');
-    } else {
-      lines.push('**Error Type**: Unknown Error');
-      lines.push(`**Message**: ${String(error)}`);
     }
 
     lines.push('');
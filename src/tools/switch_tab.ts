@@ -0,0 +1,104 @@
+/**
+ * Switch tab tool
+ *
+ * This tool makes another open browser tab the active one; page tools then act on it.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeTab, parseRpcResult, TabInfoSchema } from './page.js';
+
+/**
+ * Result of the switch_tab RPC: the tab that is now active
+ */
+const SwitchTabResultSchema = z.object({
+  tab: TabInfoSchema,
+});
+
+/**
+ * Implementation of the switch_tab tool
+ */
+export class SwitchTabTool {
+  private logger = createLogger('switch_tab_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'switch_tab';
+
+  /**
+   * Tool description
+   */
+  public description = 'Switch to an open browser tab by its id from list_tabs';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['switch_tab'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    tabId: z.number().int().describe('Id of the tab, as reported by list_tabs'),
+  };
+
+  /**
+   * Execute the switch_tab tool
+   * @param args Tool arguments with the tab id
+   * @param extra Request context; cancelling the MCP request cancels the request to the extension
+   * @returns Promise resolving to the tab that is now active
+   */
+  public execute = async (
+    args: { tabId: number },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    let text: string;
+    try {
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'switch_tab',
+          params: {
+            tabId: args.tabId,
+          },
+        },
+        { signal: extra?.signal },
+      );
+      this.logger.info('call switch_tab result:', result);
+
+      const { tab } = parseRpcResult('switch_tab', SwitchTabResultSchema, result);
+      text = `Switched to ${describeTab(tab)}`;
+    } catch (error) {
+      this.logger.error('switch_tab failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    };
+  };
+}
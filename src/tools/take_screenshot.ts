@@ -0,0 +1,168 @@
+/**
+ * Take screenshot tool
+ *
+ * This tool captures the current page as an image, so vision-capable clients can see it.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { RpcError, RpcErrorCode, toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeTarget, ElementTarget, elementTargetShape, parseRpcResult, toElementTarget } from './page.js';
+
+/**
+ * Full-page captures scroll through the page, which takes longer than other page RPCs
+ */
+const SCREENSHOT_TIMEOUT = 30000;
+
+/**
+ * Result of the take_screenshot RPC
+ */
+const ScreenshotResultSchema = z.object({
+  data: z.string().min(1),
+  mimeType: z.enum(['image/png', 'image/jpeg']),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+/**
+ * Implementation of the take_screenshot tool
+ */
+export class TakeScreenshotTool {
+  private logger = createLogger('take_screenshot_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'take_screenshot';
+
+  /**
+   * Tool description
+   */
+  public description =
+    'Take a screenshot of the visible part of the current page, the full page, or a single element, returned as an image';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['take_screenshot'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    ...elementTargetShape,
+    fullPage: z
+      .boolean()
+      .optional()
+      .describe('Capture the whole scrollable page instead of the visible viewport (default: false)'),
+    format: z.enum(['png', 'jpeg']).optional().describe('Image format (default: png)'),
+    quality: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe('JPEG quality from 1 to 100 (default: 80); lower values give smaller images'),
+    maxWidth: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        'Scale the image down to at most this width in pixels, keeping the aspect ratio; use it with jpeg to keep large pages within the message size limit',
+      ),
+  };
+
+  /**
+   * Execute the take_screenshot tool
+   * @param args Tool arguments selecting the area, format and size
+   * @param extra Request context; cancelling the MCP request cancels the capture
+   * @returns Promise resolving to the image and a description of it
+   */
+  public execute = async (
+    args: {
+      index?: number;
+      selector?: string;
+      fullPage?: boolean;
+      format?: 'png' | 'jpeg';
+      quality?: number;
+      maxWidth?: number;
+    },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', args);
+
+    const format = args.format ?? 'png';
+
+    let screenshot: z.infer<typeof ScreenshotResultSchema>;
+    let area: string;
+    try {
+      let target: ElementTarget | undefined;
+      if (args.index !== undefined || args.selector !== undefined) {
+        if (args.fullPage) {
+          throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'Specify either an element or fullPage, not both');
+        }
+        target = toElementTarget(args);
+      }
+
+      if (args.quality !== undefined && format !== 'jpeg') {
+        throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'quality only applies to the jpeg format');
+      }
+
+      area = target ? describeTarget(target) : args.fullPage ? 'the full page' : 'the viewport';
+
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'take_screenshot',
+          params: {
+            target,
+            fullPage: args.fullPage ?? false,
+            format,
+            quality: format === 'jpeg' ? (args.quality ?? 80) : undefined,
+            maxWidth: args.maxWidth,
+          },
+        },
+        { timeout: SCREENSHOT_TIMEOUT, signal: extra?.signal },
+      );
+
+      screenshot = parseRpcResult('take_screenshot', ScreenshotResultSchema, result);
+      this.logger.info(
+        `call take_screenshot result: ${screenshot.width}x${screenshot.height} ${screenshot.mimeType}, ` +
+          `${screenshot.data.length} base64 characters`,
+      );
+    } catch (error) {
+      this.logger.error('take_screenshot failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'image',
+          data: screenshot.data,
+          mimeType: screenshot.mimeType,
+        },
+        {
+          type: 'text',
+          text: `Screenshot of ${area}, ${screenshot.width}x${screenshot.height} ${screenshot.mimeType}`,
+        },
+      ],
+    };
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Type text tool
+ *
+ * This tool types text into a single element of the current page, without asking the agent to plan the step.
+ */
+
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { toolErrorResult } from '../errors.js';
+import { NativeMessaging } from '../messaging.js';
+import { createLogger } from '../logger.js';
+import { describeTarget, elementTargetShape, FieldResultSchema, parseRpcResult, toElementTarget } from './page.js';
+
+/**
+ * Implementation of the type_text tool
+ */
+export class TypeTextTool {
+  private logger = createLogger('type_text_tool');
+
+  /**
+   * Tool name
+   */
+  public name = 'type_text';
+
+  /**
+   * Tool description
+   */
+  public description =
+    'Type text into an element of the current page, selected by its index in the browser://current/state DOM snapshot or by CSS selector';
+
+  /**
+   * Extension RPC methods used by the tool
+   */
+  public rpcMethods = ['type_text'];
+
+  /**
+   * Private reference to the NativeMessaging instance
+   */
+  private messaging: NativeMessaging;
+
+  /**
+   * Constructor
+   * @param messaging NativeMessaging instance for communication
+   */
+  constructor(messaging: NativeMessaging) {
+    this.messaging = messaging;
+  }
+
+  /**
+   * Input schema for the tool
+   */
+  public inputSchema = {
+    ...elementTargetShape,
+    text: z.string().describe('The text to type'),
+    clearFirst: z.boolean().optional().describe('Clear the current value of the element before typing (default: false)'),
+    pressEnter: z.boolean().optional().describe('Press Enter after typing, e.g. to submit a search (default: false)'),
+  };
+
+  /**
+   * Execute the type_text tool
+   * @param args Tool arguments with the element, the text and the typing options
+   * @param extra Request context; cancelling the MCP request cancels the typing
+   * @returns Promise resolving to the outcome for the element
+   */
+  public execute = async (
+    args: { index?: number; selector?: string; text: string; clearFirst?: boolean; pressEnter?: boolean },
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<CallToolResult> => {
+    this.logger.info('execute args:', { ...args, text: `<${args.text.length} characters>` });
+
+    let text: string;
+    let success: boolean;
+    try {
+      const target = toElementTarget(args);
+      const result = await this.messaging.rpcRequest(
+        {
+          method: 'type_text',
+          params: {
+            ...target,
+            text: args.text,
+            clearFirst: args.clearFirst ?? false,
+            pressEnter: args.pressEnter ?? false,
+          },
+        },
+        { signal: extra?.signal },
+      );
+      const field = parseRpcResult('type_text', FieldResultSchema, result);
+      // The value echoes what was typed, which may be a password
+      this.logger.info(`call type_text result: success ${field.success}`);
+      success = field.success;
+
+      if (!field.success) {
+        text = `Could not type into ${describeTarget(target)}: ${field.error || 'no reason given'}`;
+      } else {
+        text = `Typed ${args.text.length} characters into ${describeTarget(target)}`;
+        if (args.pressEnter) {
+          text += ' and pressed Enter';
+        }
+        if (field.value !== undefined) {
+          text += `. Value: ${JSON.stringify(field.value)}`;
+        }
+      }
+    } catch (error) {
+      this.logger.error('type_text failed:', error);
+      return toolErrorResult(this.name, error);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+      isError: !success,
+    };
+  };
+}
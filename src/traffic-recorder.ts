@@ -0,0 +1,129 @@
+/**
+ * Recording of native messaging traffic for debugging
+ *
+ * Every frame exchanged with the extension is appended to a JSONL file, one line per
+ * frame, so a session can be inspected or replayed against a host with TrafficReplayer.
+ * Recordings contain page content and task results; keep them private.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createLogger } from './logger.js';
+
+/**
+ * Direction of a frame, seen from the process that recorded it
+ */
+export type FrameDirection = 'in' | 'out';
+
+/**
+ * Line of a recording
+ */
+export interface RecordedFrame {
+  /**
+   * ISO timestamp of when the frame was received or queued for sending
+   */
+  time: string;
+
+  /**
+   * `in` for frames read from stdin, `out` for frames written to stdout
+   */
+  direction: FrameDirection;
+
+  /**
+   * The frame's JSON message
+   */
+  message?: any;
+
+  /**
+   * The frame's text, for frames that are not valid JSON
+   */
+  raw?: string;
+}
+
+/**
+ * Appends native messaging frames to a JSONL file
+ */
+export class TrafficRecorder {
+  private logger = createLogger('traffic-recorder');
+  private filePath: string;
+  private fd: number | null;
+
+  /**
+   * Opens the recording for appending, creating it readable by the current user only
+   * @param filePath Path of the JSONL file
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.fd = fs.openSync(filePath, 'a', 0o600);
+    this.logger.warn(`Recording native messaging traffic to ${filePath}`);
+  }
+
+  /**
+   * Appends a frame to the recording
+   *
+   * Writes are synchronous so frames written just before the process exits are kept.
+   * @param direction Whether the frame was received or sent
+   * @param frame The frame's UTF-8 JSON, without the length prefix
+   */
+  public record(direction: FrameDirection, frame: Buffer) {
+    if (this.fd === null) {
+      return;
+    }
+
+    const text = frame.toString('utf8');
+    const entry: RecordedFrame = { time: new Date().toISOString(), direction };
+    try {
+      entry.message = JSON.parse(text);
+    } catch {
+      entry.raw = text;
+    }
+
+    try {
+      fs.writeSync(this.fd, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      // A full disk should not take the connection down with it
+      this.logger.error(`Failed to write to ${this.filePath}, recording stopped:`, error);
+      this.close();
+    }
+  }
+
+  /**
+   * Closes the recording
+   */
+  public close() {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+/**
+ * Reads a recording written by TrafficRecorder
+ * @param filePath Path of the JSONL file
+ * @returns The recorded frames, in order
+ * @throws Error naming the line that is not a valid frame
+ */
+export function readRecording(filePath: string): RecordedFrame[] {
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+
+  return lines.flatMap((line, index) => {
+    if (line.trim() === '') {
+      return [];
+    }
+
+    let entry: RecordedFrame;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${filePath}:${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (entry.direction !== 'in' && entry.direction !== 'out') {
+      throw new Error(`${filePath}:${index + 1}: direction must be "in" or "out"`);
+    }
+
+    return [entry];
+  });
+}
@@ -0,0 +1,271 @@
+/**
+ * Replay of recorded native messaging traffic
+ *
+ * TrafficReplayer plays the extension's side of a session recorded by a host (see
+ * TrafficRecorder): it sends the messages the extension sent, in order, and answers the
+ * host's RPC requests with the recorded results. Request IDs are generated anew by the
+ * replaying host, so recorded responses are matched to requests by method and order.
+ */
+
+import { spawn } from 'child_process';
+import { Readable, Writable } from 'stream';
+import { RpcError, RpcErrorCode } from './errors.js';
+import { createLogger } from './logger.js';
+import { ChunkMessage, Message, NativeMessaging } from './messaging.js';
+import { readRecording, RecordedFrame } from './traffic-recorder.js';
+import { RpcRequest, RpcResponse } from './types.js';
+
+/**
+ * Host messages the replayer accepts without answering
+ */
+const HOST_MESSAGE_TYPES = ['init_ack', 'error', 'rpc_cancel', 'status'];
+
+/**
+ * Recorded handling of one RPC request from the host
+ */
+interface RecordedExchange {
+  /**
+   * Progress the extension reported, without `type` and `id`
+   */
+  progress: Record<string, unknown>[];
+
+  /**
+   * The extension's answer; absent when it never answered
+   */
+  response?: RpcResponse;
+}
+
+/**
+ * Step of a replay: send an extension message, or wait for the host's next request of a method
+ */
+type ReplayStep = { kind: 'send'; message: Message } | { kind: 'request'; method: string; count: number };
+
+/**
+ * Options for replaying a recording
+ */
+export interface TrafficReplayerOptions {
+  /**
+   * Milliseconds to wait for each recorded request from the host (default: wait indefinitely)
+   */
+  requestTimeout?: number;
+}
+
+/**
+ * Plays a recorded extension against a host
+ */
+export class TrafficReplayer {
+  private logger = createLogger('traffic-replayer');
+  private messaging: NativeMessaging;
+  private steps: ReplayStep[] = [];
+  private exchanges = new Map<string, RecordedExchange[]>();
+  private requestCounts = new Map<string, number>();
+  private requestListeners: Array<() => void> = [];
+  private received: Message[] = [];
+  private requestTimeout?: number;
+
+  /**
+   * Creates a replayer connected to a host
+   * @param frames The recorded frames, as read by readRecording
+   * @param input The host's stdout
+   * @param output The host's stdin
+   * @param options Replay options
+   */
+  constructor(frames: RecordedFrame[], input: Readable, output: Writable, options: TrafficReplayerOptions = {}) {
+    // The recorded extension decides how long the host waits, not our own request timeout
+    this.messaging = new NativeMessaging(input, output, { incomingRequestTimeout: 2 ** 31 - 1 });
+    this.requestTimeout = options.requestTimeout;
+
+    this.buildSteps(this.reassembleChunks(frames));
+
+    for (const [method, exchanges] of Array.from(this.exchanges.entries())) {
+      this.messaging.registerRpcMethod(method, request => this.answer(method, exchanges, request));
+    }
+
+    for (const type of HOST_MESSAGE_TYPES) {
+      this.messaging.registerHandler(type, async data => {
+        this.logger.debug(`Host sent ${type}:`, data);
+        this.received.push({ type, ...data });
+      });
+    }
+  }
+
+  /**
+   * Replaces chunked messages by the messages they carry, placed where their last chunk was
+   */
+  private reassembleChunks(frames: RecordedFrame[]): Array<{ direction: RecordedFrame['direction']; message: Message }> {
+    const messages: Array<{ direction: RecordedFrame['direction']; message: Message }> = [];
+    const assemblies = new Map<string, Buffer[]>();
+
+    for (const frame of frames) {
+      if (!frame.message || typeof frame.message.type !== 'string') {
+        this.logger.warn(`Skipping recorded ${frame.direction} frame that is not a message:`, frame.raw);
+        continue;
+      }
+
+      if (frame.message.type !== 'chunk') {
+        messages.push({ direction: frame.direction, message: frame.message });
+        continue;
+      }
+
+      const chunk = frame.message as ChunkMessage;
+      const key = `${frame.direction}:${chunk.id}`;
+      const parts = assemblies.get(key) ?? new Array<Buffer>(chunk.total);
+      assemblies.set(key, parts);
+      parts[chunk.seq] = Buffer.from(chunk.data, 'base64');
+
+      if (parts.filter(part => part).length === chunk.total) {
+        assemblies.delete(key);
+        messages.push({ direction: frame.direction, message: JSON.parse(Buffer.concat(parts).toString('utf8')) });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Turns the recorded messages into replay steps and recorded answers
+   */
+  private buildSteps(messages: Array<{ direction: RecordedFrame['direction']; message: Message }>) {
+    const open = new Map<string, RecordedExchange>();
+
+    for (const { direction, message } of messages) {
+      const { type, id, ...data } = message;
+
+      if (direction === 'out') {
+        // Other host messages are produced again by the replaying host
+        if (type === 'rpc_request') {
+          const exchange: RecordedExchange = { progress: [] };
+          open.set(id, exchange);
+
+          const exchanges = this.exchanges.get(data.method) ?? [];
+          exchanges.push(exchange);
+          this.exchanges.set(data.method, exchanges);
+
+          this.steps.push({ kind: 'request', method: data.method, count: exchanges.length });
+        }
+        continue;
+      }
+
+      const exchange = open.get(id);
+      if (type === 'rpc_progress' && exchange) {
+        exchange.progress.push(data);
+      } else if (type === 'rpc_response' && exchange) {
+        exchange.response = { result: data.result, error: data.error };
+        open.delete(id);
+      } else if (type === 'rpc_progress' || type === 'rpc_response') {
+        this.logger.debug(`Skipping recorded ${type} for a request before the recording started (id: ${id})`);
+      } else {
+        this.steps.push({ kind: 'send', message });
+      }
+    }
+  }
+
+  /**
+   * Answers a host request with the next recorded exchange of its method
+   */
+  private async answer(method: string, exchanges: RecordedExchange[], request: RpcRequest): Promise<RpcResponse> {
+    const exchange = exchanges.shift();
+    this.requestCounts.set(method, (this.requestCounts.get(method) ?? 0) + 1);
+    for (const listener of this.requestListeners) {
+      listener();
+    }
+
+    if (!exchange) {
+      throw new RpcError(RpcErrorCode.INTERNAL_ERROR, `The recording has no more responses for ${method}`);
+    }
+
+    for (const progress of exchange.progress) {
+      this.messaging.sendMessage({ type: 'rpc_progress', ...progress, id: request.id });
+    }
+
+    if (!exchange.response) {
+      // Like the recorded extension, never answer
+      this.logger.info(`The recording has no response for ${method}, leaving the request unanswered`);
+      return new Promise<RpcResponse>(() => {});
+    }
+
+    return exchange.response;
+  }
+
+  /**
+   * Waits until the host has sent the given number of requests for a method
+   */
+  private waitForRequest(method: string, count: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let timeoutId: NodeJS.Timeout | undefined;
+
+      const listener = () => {
+        if ((this.requestCounts.get(method) ?? 0) >= count) {
+          clearTimeout(timeoutId);
+          this.requestListeners = this.requestListeners.filter(other => other !== listener);
+          resolve();
+        }
+      };
+
+      if (this.requestTimeout !== undefined) {
+        timeoutId = setTimeout(() => {
+          this.requestListeners = this.requestListeners.filter(other => other !== listener);
+          reject(new Error(`Host did not send ${method} request #${count} within ${this.requestTimeout}ms`));
+        }, this.requestTimeout);
+      }
+
+      this.requestListeners.push(listener);
+      listener();
+    });
+  }
+
+  /**
+   * Replays the recording
+   *
+   * Sends the recorded extension messages in order, pausing at each recorded host request
+   * until the replaying host makes it. Requests are usually triggered by repeating the
+   * recorded MCP tool calls against the host.
+   * @returns A promise that resolves once every step was replayed
+   */
+  public async run(): Promise<void> {
+    for (const step of this.steps) {
+      if (step.kind === 'send') {
+        this.logger.debug(`Replaying ${step.message.type}`);
+        this.messaging.sendMessage(step.message);
+      } else {
+        this.logger.info(`Waiting for the host to request ${step.method} (#${step.count})`);
+        await this.waitForRequest(step.method, step.count);
+      }
+    }
+
+    this.logger.info('Replay finished');
+  }
+
+  /**
+   * Gets the messages the host sent that are not RPC traffic, e.g. init_ack and error
+   */
+  public getReceivedMessages(): Message[] {
+    return [...this.received];
+  }
+}
+
+/**
+ * Starts a host and replays a recording against it
+ * @param recordingPath Path of the recording
+ * @param hostScript Script that starts the host, usually this process's own entry point
+ * @returns A promise that resolves with the host's exit code
+ */
+export async function replayAgainstHost(recordingPath: string, hostScript: string): Promise<number> {
+  const logger = createLogger('traffic-replayer');
+  const frames = readRecording(recordingPath);
+
+  // Don't record the replay over the recording
+  const env = { ...process.env };
+  delete env.MCP_NATIVE_RECORD_FILE;
+
+  const host = spawn(process.execPath, [hostScript], { stdio: ['pipe', 'pipe', 'inherit'], env });
+  const exited = new Promise<number>(resolve => host.on('exit', code => resolve(code ?? 1)));
+
+  const replayer = new TrafficReplayer(frames, host.stdout!, host.stdin!);
+  replayer.run().then(
+    () => logger.info('Recording replayed; the host keeps running until it is stopped'),
+    error => logger.error('Replay failed:', error),
+  );
+
+  return exited;
+}
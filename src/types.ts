@@ -61,6 +61,104 @@ export interface RpcRequestOptions {
    * Timeout in milliseconds
    */
   timeout?: number;
+
+  /**
+   * Signal that cancels the request; the extension is sent an `rpc_cancel` message for it
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called for each `rpc_progress` message the extension sends for the request;
+   * every progress message also restarts the timeout
+   */
+  onProgress?: (progress: RpcProgress) => void;
+}
+
+/**
+ * Progress reported by the extension while it works on an RPC request
+ */
+export interface RpcProgress {
+  /**
+   * Progress so far; increases with every update
+   */
+  progress: number;
+
+  /**
+   * Total progress required, if known
+   */
+  total?: number;
+
+  /**
+   * Description of the current step
+   */
+  message?: string;
+}
+
+/**
+ * State of the native messaging connection to the extension
+ *
+ * - `connecting`: the host started but has not received anything from the extension yet
+ * - `connected`: the extension has sent at least one message
+ * - `disconnected`: stdin or stdout was closed; Chrome never reconnects a native host, so this is final
+ */
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Options for the native messaging channel
+ */
+export interface NativeMessagingOptions {
+  /**
+   * Largest frame written to the extension in bytes (default: 1 MiB, Chrome's host-to-extension limit);
+   * larger messages are split into chunks
+   */
+  maxFrameSize?: number;
+
+  /**
+   * Payload bytes carried by each outgoing chunk (default: 512 KiB)
+   */
+  chunkSize?: number;
+
+  /**
+   * Largest message accepted or sent in bytes, whether framed whole or in chunks (default: 64 MiB)
+   */
+  maxMessageSize?: number;
+
+  /**
+   * Time in milliseconds to wait for the remaining chunks of a message (default: 30000)
+   */
+  chunkTimeout?: number;
+
+  /**
+   * Time in milliseconds a handler may take to answer an RPC request from the extension
+   * before the host answers with a timeout error (default: 30000)
+   */
+  incomingRequestTimeout?: number;
+
+  /**
+   * Bytes that may wait in the outbound queue while stdout drains (default: 32 MiB); sending a
+   * message that would exceed it fails, except into an empty queue
+   */
+  maxOutboundQueueBytes?: number;
+
+  /**
+   * JSONL file every inbound and outbound frame is appended to, for debugging (default: no recording)
+   */
+  recordFile?: string;
+}
+
+/**
+ * Messages waiting to be written to the extension
+ */
+export interface OutboundQueueDepth {
+  /**
+   * Queued frames
+   */
+  frames: number;
+
+  /**
+   * Queued bytes, including length prefixes
+   */
+  bytes: number;
 }
 
 /**
@@ -86,6 +184,17 @@ export interface StatusHandlerConfig {
   runMode: string;
 }
 
+/**
+ * Host status reported on the /status endpoint
+ */
+export interface HostStatus extends StatusHandlerConfig {
+  lastPing: number;
+  extensionConnected: boolean;
+  extensionConnectionState: ConnectionState;
+  outboundQueue: OutboundQueueDepth;
+  pendingRpcRequests: number;
+}
+
 /**
  * Type definition for the cleanup function
  */
@@ -169,6 +278,11 @@ export interface Tool<Args extends ZodRawShape> {
    */
   inputSchema: Args;
 
+  /**
+   * Extension RPC methods the tool calls; the tool is only offered when the extension implements all of them
+   */
+  rpcMethods: string[];
+
   /**
    * Execute the tool with the provided arguments
    * @param args Tool arguments
@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { McpHttpClient } from '../mcp-http-client';
+
+/**
+ * Tests for bearer token authentication
+ * Focused on rejecting MCP requests that do not carry the host's auth token
+ */
+describe('Authentication', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should reject Streamable HTTP requests without a token', async () => {
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('Bearer');
+  });
+
+  test('should reject SSE streams and messages without a token', async () => {
+    const streamResponse = await fetch(`http://localhost:${testEnv.getPort()}/mcp`, {
+      headers: { Accept: 'text/event-stream' },
+    });
+    expect(streamResponse.status).toBe(401);
+
+    const messageResponse = await fetch(`http://localhost:${testEnv.getPort()}/messages?sessionId=any`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(messageResponse.status).toBe(401);
+  });
+
+  test('should reject clients with a wrong token', async () => {
+    const mcpClient = new McpHttpClient(`http://localhost:${testEnv.getPort()}/mcp`, { authToken: 'wrong-token' });
+
+    await expect(mcpClient.initialize()).rejects.toThrow();
+
+    await mcpClient.close();
+  });
+
+  test('should accept clients with the correct token', async () => {
+    const mcpClient = testEnv.createMcpClient();
+    await mcpClient.initialize();
+
+    const tools = await mcpClient.listTools();
+    expect(tools.tools.length).toBeGreaterThan(0);
+
+    await mcpClient.close();
+  });
+});
@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+
+/**
+ * Tests for propagating MCP request cancellation to the extension
+ */
+describe('Request Cancellation', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  /**
+   * Registers a slow extension-side handler for a method and records cancellations
+   */
+  function registerSlowMethod(method: string) {
+    const requests: RpcRequest[] = [];
+    const cancelledIds: string[] = [];
+    let finish: () => void = () => {};
+
+    testEnv.registerRpcMethod(method, async (req: RpcRequest): Promise<RpcResponse> => {
+      requests.push(req);
+      await new Promise<void>(resolve => {
+        finish = resolve;
+      });
+      return { result: 'finished too late' };
+    });
+
+    testEnv.registerMessageHandler('rpc_cancel', async (data: any) => {
+      cancelledIds.push(data.id);
+    });
+
+    return { requests, cancelledIds, finish: () => finish() };
+  }
+
+  test('should send rpc_cancel when a run_task call is cancelled', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    const slow = registerSlowMethod('run_task');
+    const controller = new AbortController();
+
+    const call = mcpClient.callTool('run_task', { task: 'Never-ending task' }, { signal: controller.signal });
+    await vi.waitFor(() => expect(slow.requests).toHaveLength(1));
+
+    controller.abort('user cancelled');
+    await expect(call).rejects.toThrow();
+
+    await vi.waitFor(() => expect(slow.cancelledIds).toEqual([slow.requests[0].id]));
+    slow.finish();
+  });
+
+  test('should send rpc_cancel when a navigate_to call is cancelled', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    const slow = registerSlowMethod('navigate_to');
+    const controller = new AbortController();
+
+    const call = mcpClient.callTool('navigate_to', { url: 'https://slow.example.com' }, { signal: controller.signal });
+    await vi.waitFor(() => expect(slow.requests).toHaveLength(1));
+
+    controller.abort('user cancelled');
+    await expect(call).rejects.toThrow();
+
+    await vi.waitFor(() => expect(slow.cancelledIds).toEqual([slow.requests[0].id]));
+    slow.finish();
+  });
+});
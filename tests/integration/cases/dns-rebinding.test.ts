@@ -0,0 +1,91 @@
+import * as http from 'http';
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+
+/**
+ * Tests for DNS-rebinding protection
+ * Focused on rejecting requests whose Host or Origin header is not on the allowlist
+ */
+describe('DNS Rebinding Protection', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  /**
+   * Send a tools/list request with custom headers; http.request is used because
+   * fetch does not allow overriding the Host header
+   */
+  const postToMcp = (headers: Record<string, string>): Promise<number> => {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        {
+          host: '127.0.0.1',
+          port: testEnv.getPort(),
+          path: '/mcp',
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            Authorization: `Bearer ${testEnv.getAuthToken()}`,
+            ...headers,
+          },
+        },
+        res => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        },
+      );
+      req.on('error', reject);
+      req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+    });
+  };
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment({
+      env: { MCP_ALLOWED_ORIGINS: 'chrome-extension://allowed-extension-id' },
+    });
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should reject requests with a foreign Host header', async () => {
+    const status = await postToMcp({ Host: `attacker.example.com:${testEnv.getPort()}` });
+    expect(status).toBe(403);
+  });
+
+  test('should reject requests with a foreign Origin header', async () => {
+    const status = await postToMcp({ Origin: 'http://attacker.example.com' });
+    expect(status).toBe(403);
+  });
+
+  test('should accept loopback Host and Origin headers', async () => {
+    const status = await postToMcp({
+      Host: `localhost:${testEnv.getPort()}`,
+      Origin: `http://localhost:${testEnv.getPort()}`,
+    });
+
+    // The request passes validation and reaches the transport, which rejects it for lacking a session
+    expect(status).toBe(400);
+  });
+
+  test('should accept origins from the configured allowlist', async () => {
+    const status = await postToMcp({ Origin: 'chrome-extension://allowed-extension-id' });
+    expect(status).toBe(400);
+  });
+
+  test('should remain stable after rejected requests', async () => {
+    await postToMcp({ Host: 'attacker.example.com' });
+
+    const mcpClient = testEnv.getMcpClient();
+    expect(mcpClient).not.toBeNull();
+    await mcpClient!.initialize();
+
+    const tools = await mcpClient!.listTools();
+    expect(tools.tools.length).toBeGreaterThan(0);
+  });
+});
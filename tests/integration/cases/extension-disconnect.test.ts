@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+
+/**
+ * Tests for the host's behaviour when the extension disconnects
+ */
+describe('Extension Disconnect', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  /**
+   * Fetches the host status report
+   */
+  async function getStatus() {
+    const response = await fetch(`${testEnv.getBaseUrl()}/status`, {
+      headers: { Authorization: `Bearer ${testEnv.getAuthToken()}` },
+    });
+    return response.json();
+  }
+
+  test('should fail in-flight and new tool calls once the extension disconnects', async () => {
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    let received = false;
+    testEnv.registerRpcMethod('run_task', async (): Promise<RpcResponse> => {
+      received = true;
+      return new Promise(() => {});
+    });
+
+    expect((await getStatus()).extensionConnectionState).toBe('connected');
+
+    const inFlight = mcpClient.callTool('run_task', { task: 'Never-ending task' });
+    await vi.waitFor(() => expect(received).toBe(true));
+
+    testEnv.disconnectExtension();
+
+    const inFlightResp = await inFlight;
+    expect(inFlightResp.content[0].text).toContain('**Error Type**: Connection Error');
+
+    const startTime = Date.now();
+    const navigateResp = await mcpClient.callTool('navigate_to', { url: 'https://example.com' });
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect(navigateResp.isError).toBe(true);
+    expect(navigateResp.content[0].text).toContain('Extension not connected');
+
+    const status = await getStatus();
+    expect(status.extensionConnected).toBe(false);
+    expect(status.extensionConnectionState).toBe('disconnected');
+    expect(status.pendingRpcRequests).toBe(0);
+  });
+
+  test('should keep running after a disconnect by default', async () => {
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+
+    testEnv.disconnectExtension();
+
+    expect(await testEnv.waitForExit(1000)).toBeNull();
+    expect(testEnv.isHostRunning()).toBe(true);
+  });
+
+  test('should exit after the grace period when configured', async () => {
+    testEnv = new McpHostTestEnvironment({ env: { MCP_EXIT_ON_DISCONNECT_DELAY: '200' } });
+    await testEnv.setup();
+
+    testEnv.disconnectExtension();
+
+    expect(await testEnv.waitForExit(5000)).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { DEFAULT_EXTENSION_METHODS, McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { PROTOCOL_VERSION } from '../../../src/protocol';
+
+/**
+ * Tools registered for an extension that implements every RPC method, in registration order
+ */
+const ALL_TOOLS = [
+  'run_task',
+  'navigate_to',
+  'go_back',
+  'go_forward',
+  'reload_page',
+  'click_element',
+  'type_text',
+  'fill_form',
+  'take_screenshot',
+  'list_tabs',
+  'open_tab',
+  'switch_tab',
+  'close_tab',
+];
+
+/**
+ * Tests for the protocol version and capability handshake with the extension
+ */
+describe('Extension Handshake', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  /**
+   * Lists the names of the tools offered to MCP clients
+   */
+  async function listToolNames(): Promise<string[]> {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+    const tools = await mcpClient.listTools();
+    return tools.tools.map((tool: any) => tool.name).sort();
+  }
+
+  test('should acknowledge a compatible extension and register its tools', async () => {
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+
+    await vi.waitFor(() => expect(testEnv.getInitAck()).not.toBeNull());
+    expect(testEnv.getInitAck()).toEqual({
+      protocolVersion: PROTOCOL_VERSION,
+      tools: ALL_TOOLS,
+    });
+    expect(await listToolNames()).toEqual([...ALL_TOOLS].sort());
+  });
+
+  test('should only register tools whose RPC methods the extension implements', async () => {
+    testEnv = new McpHostTestEnvironment({ init: { protocolVersion: PROTOCOL_VERSION, methods: ['run_task'] } });
+    await testEnv.setup();
+
+    await vi.waitFor(() => expect(testEnv.getInitAck()).not.toBeNull());
+    expect(testEnv.getInitAck().tools).toEqual(['run_task']);
+    expect(await listToolNames()).toEqual(['run_task']);
+  });
+
+  test('should reject an incompatible protocol version', async () => {
+    testEnv = new McpHostTestEnvironment({
+      init: { protocolVersion: PROTOCOL_VERSION + 1, methods: ['run_task', 'navigate_to'] },
+    });
+    await testEnv.setup();
+
+    await vi.waitFor(() =>
+      expect(testEnv.getErrors()).toContainEqual(
+        expect.objectContaining({
+          originalType: 'init',
+          error: expect.stringContaining(`Incompatible protocol version ${PROTOCOL_VERSION + 1}`),
+        }),
+      ),
+    );
+    expect(testEnv.getInitAck()).toBeNull();
+
+    expect(await listToolNames()).toEqual([]);
+  });
+
+  test('should offer tools to sessions opened before the handshake', async () => {
+    testEnv = new McpHostTestEnvironment({ init: null });
+    await testEnv.setup();
+
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+    expect((await mcpClient.listTools()).tools).toEqual([]);
+
+    await testEnv.sendMessage({ type: 'init', protocolVersion: PROTOCOL_VERSION, methods: DEFAULT_EXTENSION_METHODS });
+    await vi.waitFor(() => expect(testEnv.getInitAck()).not.toBeNull());
+
+    // Same session as before the handshake
+    const tools = await mcpClient.listTools();
+    expect(tools.tools.map((tool: any) => tool.name).sort()).toEqual([...ALL_TOOLS].sort());
+  });
+
+  test('should register the original tools for extensions that predate the handshake', async () => {
+    testEnv = new McpHostTestEnvironment({ init: {} });
+    await testEnv.setup();
+
+    await vi.waitFor(() => expect(testEnv.getInitAck()).not.toBeNull());
+    expect(await listToolNames()).toEqual(['navigate_to', 'run_task']);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+
+/**
+ * Tests for the health and status endpoints
+ * Focused on reporting host, extension and session state to supervisors
+ */
+describe('Health and Status Endpoints', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should report health without authentication', async () => {
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/healthz`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  test('should require authentication for status', async () => {
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/status`);
+    expect(response.status).toBe(401);
+  });
+
+  test('should report host status', async () => {
+    const mcpClient = testEnv.getMcpClient();
+    expect(mcpClient).not.toBeNull();
+    await mcpClient!.initialize();
+
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/status`, {
+      headers: { Authorization: `Bearer ${testEnv.getAuthToken()}` },
+    });
+    expect(response.status).toBe(200);
+
+    const status = await response.json();
+    expect(status.status).toBe('ok');
+    expect(status.version).toBe('0.1.0');
+    expect(status.uptime).toBeGreaterThanOrEqual(0);
+    expect(status.extensionConnected).toBe(true);
+    expect(status.pendingRpcRequests).toBe(0);
+    expect(status.sessions.active).toBeGreaterThanOrEqual(1);
+    expect(status.sessions.list[0].clientInfo.name).toBe('mcp-test-client');
+    expect(status.tools).toContain('run_task');
+    expect(status.tools).toContain('navigate_to');
+    expect(status.resources).toContain('browser://current/state');
+  });
+});
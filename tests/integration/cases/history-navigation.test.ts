@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+import { RpcErrorCode } from '../../../src/errors';
+
+/**
+ * Tests for the history navigation and reload tools
+ */
+describe('History Navigation Tools', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should go back and forward and report where the tab ended up', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    const history = [
+      { url: 'https://example.com/', title: 'Example', status: 200 },
+      { url: 'https://example.com/search?q=mcp', title: 'Search', status: 200 },
+    ];
+    let position = 1;
+    const requests: Array<[string, any]> = [];
+
+    testEnv.registerRpcMethod('go_back', async (req: RpcRequest): Promise<RpcResponse> => {
+      requests.push(['go_back', req.params]);
+      return { result: history[--position] };
+    });
+    testEnv.registerRpcMethod('go_forward', async (req: RpcRequest): Promise<RpcResponse> => {
+      requests.push(['go_forward', req.params]);
+      return { result: history[++position] };
+    });
+
+    const back = await mcpClient.callTool('go_back', {});
+    expect(back.content[0].text).toBe('Went back to "Example" <https://example.com/> (HTTP 200)');
+
+    const forward = await mcpClient.callTool('go_forward', { waitUntilLoaded: false });
+    expect(forward.content[0].text).toBe('Went forward to "Search" <https://example.com/search?q=mcp> (HTTP 200)');
+
+    expect(requests).toEqual([
+      ['go_back', { waitUntilLoaded: true }],
+      ['go_forward', { waitUntilLoaded: false }],
+    ]);
+  });
+
+  test('should reload the page, bypassing the cache on request', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    const requests: any[] = [];
+    testEnv.registerRpcMethod('reload_page', async (req: RpcRequest): Promise<RpcResponse> => {
+      requests.push(req.params);
+      return { result: { url: 'https://example.com/', title: 'Example', status: req.params.hard ? 200 : 304 } };
+    });
+
+    const soft = await mcpClient.callTool('reload_page', {});
+    expect(soft.content[0].text).toBe('Reloaded "Example" <https://example.com/> (HTTP 304)');
+
+    const hard = await mcpClient.callTool('reload_page', { hard: true });
+    expect(hard.content[0].text).toBe('Reloaded "Example" <https://example.com/> (HTTP 200)');
+
+    expect(requests).toEqual([
+      { hard: false, waitUntilLoaded: true },
+      { hard: true, waitUntilLoaded: true },
+    ]);
+  });
+
+  test('should say so when the HTTP status is unknown', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    // E.g. pages restored from the back/forward cache
+    testEnv.registerRpcMethod('go_back', async (): Promise<RpcResponse> => {
+      return { result: { url: 'https://example.com/', title: 'Example', status: null } };
+    });
+
+    const toolResp = await mcpClient.callTool('go_back', {});
+
+    expect(toolResp.content[0].text).toBe('Went back to "Example" <https://example.com/> (HTTP status unknown)');
+  });
+
+  test('should report extension errors as tool errors', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    testEnv.registerRpcMethod('go_forward', async (): Promise<RpcResponse> => {
+      return { error: { code: RpcErrorCode.INVALID_REQUEST, message: 'No next page in history' } };
+    });
+
+    const toolResp = await mcpClient.callTool('go_forward', {});
+
+    expect(toolResp.isError).toBe(true);
+    expect(toolResp.content[0].text).toBe('go_forward failed (invalid_request): No next page in history');
+  });
+});
@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+
+/**
+ * Tests for the Prometheus metrics endpoint
+ * Focused on tool call, native RPC and session metrics
+ */
+describe('Metrics Endpoint', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  /**
+   * Fetch the metrics exposition text
+   */
+  const fetchMetrics = async (): Promise<string> => {
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/metrics`, {
+      headers: { Authorization: `Bearer ${testEnv.getAuthToken()}` },
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    return response.text();
+  };
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should require authentication', async () => {
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/metrics`);
+    expect(response.status).toBe(401);
+  });
+
+  test('should record tool calls and native RPC requests', async () => {
+    const mcpClient = testEnv.getMcpClient();
+    expect(mcpClient).not.toBeNull();
+    await mcpClient!.initialize();
+
+    testEnv.registerRpcMethod('navigate_to', async (req: RpcRequest): Promise<RpcResponse> => {
+      return { result: { url: req.params.url, title: 'Example', status: 200 } };
+    });
+
+    await mcpClient!.callTool('navigate_to', { url: 'https://example.com' });
+
+    const metrics = await fetchMetrics();
+    expect(metrics).toContain('nanobrowser_mcp_tool_calls_total{tool="navigate_to",status="success"} 1');
+    expect(metrics).toContain('nanobrowser_mcp_tool_call_duration_seconds_count{tool="navigate_to"} 1');
+    expect(metrics).toContain('nanobrowser_mcp_rpc_requests_total{method="navigate_to",status="success"} 1');
+    expect(metrics).toContain('nanobrowser_mcp_rpc_request_duration_seconds_count{method="navigate_to"} 1');
+    expect(metrics).toMatch(/nanobrowser_mcp_native_message_bytes_total\{direction="out"\} [1-9]/);
+    expect(metrics).toMatch(/nanobrowser_mcp_native_message_bytes_total\{direction="in"\} [1-9]/);
+  });
+
+  test('should report active sessions', async () => {
+    const metrics = await fetchMetrics();
+    expect(metrics).toMatch(/nanobrowser_mcp_active_sessions\{transport="streamable-http"\} [1-9]/);
+  });
+});
@@ -0,0 +1,253 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+
+/**
+ * Tests for the low-level tools that interact with elements of the current page
+ */
+describe('Page Interaction Tools', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  describe('click_element', () => {
+    test('should click an element by index and report the page change', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      let params: any = null;
+      testEnv.registerRpcMethod('click_element', async (req: RpcRequest): Promise<RpcResponse> => {
+        params = req.params;
+        return {
+          result: {
+            before: { url: 'https://example.com/', title: 'Example' },
+            after: { url: 'https://example.com/about', title: 'About' },
+          },
+        };
+      });
+
+      const toolResp = await mcpClient.callTool('click_element', { index: 3 });
+
+      expect(params).toEqual({ index: 3 });
+      expect(toolResp.isError).toBeFalsy();
+      expect(toolResp.content[0].text).toBe(
+        'Clicked element 3. Page changed from "Example" <https://example.com/> to "About" <https://example.com/about>',
+      );
+    });
+
+    test('should click an element by selector', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      let params: any = null;
+      testEnv.registerRpcMethod('click_element', async (req: RpcRequest): Promise<RpcResponse> => {
+        params = req.params;
+        const page = { url: 'https://example.com/', title: 'Example' };
+        return { result: { before: page, after: page } };
+      });
+
+      const toolResp = await mcpClient.callTool('click_element', { selector: 'button.expand' });
+
+      expect(params).toEqual({ selector: 'button.expand' });
+      expect(toolResp.content[0].text).toBe(
+        'Clicked element "button.expand". Page unchanged: "Example" <https://example.com/>',
+      );
+    });
+
+    test('should wait for the page after a click that starts a slow navigation', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      // Longer than the default RPC timeout of 5 seconds
+      testEnv.registerRpcMethod('click_element', async (): Promise<RpcResponse> => {
+        await new Promise(resolve => setTimeout(resolve, 6000));
+        return {
+          result: {
+            before: { url: 'https://example.com/', title: 'Example' },
+            after: { url: 'https://example.com/checkout', title: 'Checkout' },
+          },
+        };
+      });
+
+      const toolResp = await mcpClient.callTool('click_element', { selector: '#buy' });
+
+      expect(toolResp.isError).toBeFalsy();
+      expect(toolResp.content[0].text).toBe(
+        'Clicked element "#buy". Page changed from "Example" <https://example.com/> to "Checkout" <https://example.com/checkout>',
+      );
+    }, 15000);
+
+    test('should require exactly one of index and selector', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      const missing = await mcpClient.callTool('click_element', {});
+      expect(missing.isError).toBe(true);
+      expect(missing.content[0].text).toBe(
+        'click_element failed (invalid_params): Specify the element by index or selector',
+      );
+
+      const both = await mcpClient.callTool('click_element', { index: 1, selector: '#a' });
+      expect(both.isError).toBe(true);
+      expect(both.content[0].text).toContain('Specify either index or selector, not both');
+    });
+
+    test('should report results the host does not understand as errors', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      testEnv.registerRpcMethod('click_element', async (): Promise<RpcResponse> => {
+        return { result: 'clicked' };
+      });
+
+      const toolResp = await mcpClient.callTool('click_element', { index: 0 });
+
+      expect(toolResp.isError).toBe(true);
+      expect(toolResp.content[0].text).toMatch(/^click_element failed \(internal_error\): Unexpected click_element result/);
+    });
+  });
+
+  describe('type_text', () => {
+    test('should type into an element with the requested options', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      let params: any = null;
+      testEnv.registerRpcMethod('type_text', async (req: RpcRequest): Promise<RpcResponse> => {
+        params = req.params;
+        return { result: { success: true, value: 'mcp hosts' } };
+      });
+
+      const toolResp = await mcpClient.callTool('type_text', {
+        selector: 'input[name=q]',
+        text: 'mcp hosts',
+        clearFirst: true,
+        pressEnter: true,
+      });
+
+      expect(params).toEqual({ selector: 'input[name=q]', text: 'mcp hosts', clearFirst: true, pressEnter: true });
+      expect(toolResp.isError).toBe(false);
+      expect(toolResp.content[0].text).toBe(
+        'Typed 9 characters into element "input[name=q]" and pressed Enter. Value: "mcp hosts"',
+      );
+    });
+
+    test('should default to appending without pressing Enter', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      let params: any = null;
+      testEnv.registerRpcMethod('type_text', async (req: RpcRequest): Promise<RpcResponse> => {
+        params = req.params;
+        return { result: { success: true } };
+      });
+
+      const toolResp = await mcpClient.callTool('type_text', { index: 7, text: 'abc' });
+
+      expect(params).toEqual({ index: 7, text: 'abc', clearFirst: false, pressEnter: false });
+      expect(toolResp.content[0].text).toBe('Typed 3 characters into element 7');
+    });
+
+    test('should flag fields the extension could not type into', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      testEnv.registerRpcMethod('type_text', async (): Promise<RpcResponse> => {
+        return { result: { success: false, error: 'Element is disabled' } };
+      });
+
+      const toolResp = await mcpClient.callTool('type_text', { index: 7, text: 'abc' });
+
+      expect(toolResp.isError).toBe(true);
+      expect(toolResp.content[0].text).toBe('Could not type into element 7: Element is disabled');
+    });
+  });
+
+  describe('fill_form', () => {
+    test('should fill all fields in one request and report each field', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      const requests: any[] = [];
+      testEnv.registerRpcMethod('fill_form', async (req: RpcRequest): Promise<RpcResponse> => {
+        requests.push(req.params);
+        return { result: { fields: [{ success: true, value: 'Ada' }, { success: true }] } };
+      });
+
+      const toolResp = await mcpClient.callTool('fill_form', { fields: { '12': 'Ada', '#email': 'ada@example.com' } });
+
+      expect(requests).toEqual([
+        {
+          fields: [
+            { index: 12, value: 'Ada' },
+            { selector: '#email', value: 'ada@example.com' },
+          ],
+        },
+      ]);
+      expect(toolResp.isError).toBe(false);
+      expect(toolResp.content[0].text).toBe(
+        'Filled 2 fields\n- element 12: ok, value "Ada"\n- element "#email": ok',
+      );
+    });
+
+    test('should wait for long forms to be filled', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      const fields = Object.fromEntries(Array.from({ length: 40 }, (_, i) => [`#field-${i}`, `value ${i}`]));
+      testEnv.registerRpcMethod('fill_form', async (req: RpcRequest): Promise<RpcResponse> => {
+        // Longer than the default RPC timeout of 5 seconds
+        await new Promise(resolve => setTimeout(resolve, 6000));
+        return { result: { fields: req.params.fields.map(() => ({ success: true })) } };
+      });
+
+      const toolResp = await mcpClient.callTool('fill_form', { fields });
+
+      expect(toolResp.isError).toBe(false);
+      expect(toolResp.content[0].text.split('\n')[0]).toBe('Filled 40 fields');
+    }, 15000);
+
+    test('should report partially filled forms as errors', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      testEnv.registerRpcMethod('fill_form', async (): Promise<RpcResponse> => {
+        return { result: { fields: [{ success: true }, { success: false, error: 'No such element' }] } };
+      });
+
+      const toolResp = await mcpClient.callTool('fill_form', { fields: { '#name': 'Ada', '#phone': '555' } });
+
+      expect(toolResp.isError).toBe(true);
+      expect(toolResp.content[0].text).toBe(
+        'Filled 1 of 2 fields\n- element "#name": ok\n- element "#phone": failed, No such element',
+      );
+    });
+
+    test('should reject an empty form and mismatched results', async () => {
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      const empty = await mcpClient.callTool('fill_form', { fields: {} });
+      expect(empty.isError).toBe(true);
+      expect(empty.content[0].text).toBe('fill_form failed (invalid_params): Specify at least one field');
+
+      testEnv.registerRpcMethod('fill_form', async (): Promise<RpcResponse> => {
+        return { result: { fields: [{ success: true }] } };
+      });
+
+      const mismatched = await mcpClient.callTool('fill_form', { fields: { '#a': '1', '#b': '2' } });
+      expect(mismatched.isError).toBe(true);
+      expect(mismatched.content[0].text).toContain('1 field results for 2 fields');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+
+/**
+ * Tests for relaying task progress from the extension to MCP clients
+ */
+describe('Task Progress', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should forward rpc_progress messages as progress notifications', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    testEnv.registerRpcMethod('run_task', async (req: RpcRequest): Promise<RpcResponse> => {
+      await testEnv.sendMessage({ type: 'rpc_progress', id: req.id, progress: 1, total: 3, message: 'Opened page' });
+      await testEnv.sendMessage({ type: 'rpc_progress', id: req.id, progress: 2, total: 3, message: 'Filled form' });
+      await testEnv.sendMessage({ type: 'rpc_progress', id: req.id, message: 'Submitted form' });
+      return { result: 'Task completed' };
+    });
+
+    const updates: Progress[] = [];
+    const toolResp = await mcpClient.callTool(
+      'run_task',
+      { task: 'Submit the form' },
+      { onprogress: progress => updates.push(progress) },
+    );
+
+    expect(toolResp.content[0].text).toContain('**Status**: ✅ Success');
+    await vi.waitFor(() => expect(updates).toHaveLength(3));
+    expect(updates[0]).toEqual({ progress: 1, total: 3, message: 'Opened page' });
+    expect(updates[1]).toEqual({ progress: 2, total: 3, message: 'Filled form' });
+    // Updates without a progress value are numbered by the host
+    expect(updates[2]).toMatchObject({ progress: 3, message: 'Submitted form' });
+  });
+
+  test('should restart the task timeout on each progress message', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    testEnv.registerRpcMethod('run_task', async (req: RpcRequest): Promise<RpcResponse> => {
+      for (let step = 1; step <= 3; step++) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+        await testEnv.sendMessage({ type: 'rpc_progress', id: req.id, progress: step });
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+      return { result: 'Slow task completed' };
+    });
+
+    // The task takes 2 seconds in total, but never goes a full second without progress
+    const toolResp = await mcpClient.callTool(
+      'run_task',
+      { task: 'Slow task', timeout: 1000 },
+      { onprogress: () => {} },
+    );
+
+    expect(toolResp.content[0].text).toContain('**Status**: ✅ Success');
+    expect(toolResp.content[0].text).toContain('Slow task completed');
+  });
+});
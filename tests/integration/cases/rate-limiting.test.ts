@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+
+/**
+ * Tests for tool call rate limiting
+ * Focused on rejecting calls that exceed the concurrency and per-minute limits with tool errors
+ */
+describe('Tool Call Rate Limiting', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment({
+      env: {
+        MCP_MAX_CONCURRENT_CALLS_PER_SESSION: '1',
+        MCP_TOOL_CALLS_PER_MINUTE: '3',
+      },
+    });
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should reject concurrent calls beyond the per-session limit', async () => {
+    const mcpClient = testEnv.getMcpClient();
+    expect(mcpClient).not.toBeNull();
+    await mcpClient!.initialize();
+
+    testEnv.registerRpcMethod('run_task', async (req: RpcRequest): Promise<RpcResponse> => {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      return { result: 'Task completed' };
+    });
+
+    const [first, second] = await Promise.all([
+      mcpClient!.callTool('run_task', { task: 'First task' }),
+      mcpClient!.callTool('run_task', { task: 'Second task' }),
+    ]);
+
+    const results = [first, second];
+    const rejected = results.filter(result => result.isError);
+    const completed = results.filter(result => !result.isError);
+
+    expect(rejected.length).toBe(1);
+    expect(rejected[0].content[0].text).toContain('Rate limit exceeded');
+    expect(rejected[0].content[0].text).toContain('concurrent');
+    expect(completed.length).toBe(1);
+    expect(completed[0].content[0].text).toContain('**Status**: ✅ Success');
+  });
+
+  test('should reject calls beyond the per-minute limit of a tool', async () => {
+    const mcpClient = testEnv.getMcpClient();
+    expect(mcpClient).not.toBeNull();
+    await mcpClient!.initialize();
+
+    testEnv.registerRpcMethod('navigate_to', async (req: RpcRequest): Promise<RpcResponse> => {
+      return { result: { url: req.params.url, title: 'Example', status: 200 } };
+    });
+
+    for (let i = 0; i < 3; i++) {
+      const result = await mcpClient!.callTool('navigate_to', { url: `https://example.com/${i}` });
+      expect(result.isError).toBeFalsy();
+    }
+
+    const limited = await mcpClient!.callTool('navigate_to', { url: 'https://example.com/limited' });
+    expect(limited.isError).toBe(true);
+    expect(limited.content[0].text).toContain('Too many navigate_to calls (limit: 3 per minute)');
+  });
+});
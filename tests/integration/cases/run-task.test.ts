@@ -1,6 +1,7 @@
 import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
 import { McpHostTestEnvironment } from '../mcp-host-test-environment';
 import { RpcRequest, RpcResponse } from '../../../src/types';
+import { RpcErrorCode } from '../../../src/errors';
 
 /**
  * Tests for Run Task tool execution
@@ -89,6 +90,46 @@ describe('Run Task Tool', () => {
     await expect(mcpClient!.callTool('run_task', {})).rejects.toThrow();
   });
 
+  test('should report task failures as tool errors by error code', async () => {
+    const mcpClient = testEnv.getMcpClient();
+    await mcpClient!.initialize();
+
+    testEnv.registerRpcMethod('run_task', async (): Promise<RpcResponse> => {
+      return {
+        error: {
+          code: RpcErrorCode.TASK_FAILED,
+          message: 'Could not find the login form',
+          data: { step: 2 },
+        },
+      };
+    });
+
+    const toolResp = await mcpClient!.callTool('run_task', { task: 'Log in' });
+
+    expect(toolResp.isError).toBe(true);
+    const responseText = toolResp.content[0].text;
+    expect(responseText).toContain('**Status**: ❌ Failed');
+    expect(responseText).toContain('**Error Type**: Task Failed');
+    expect(responseText).toContain('**Message**: Could not find the login form');
+    expect(responseText).toContain(`**Error Code**: task_failed (${RpcErrorCode.TASK_FAILED})`);
+    expect(responseText).toContain('"step": 2');
+  });
+
+  test('should report timeouts as tool errors', async () => {
+    const mcpClient = testEnv.getMcpClient();
+    await mcpClient!.initialize();
+
+    testEnv.registerRpcMethod('run_task', async (): Promise<RpcResponse> => {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      return { result: 'Too late' };
+    });
+
+    const toolResp = await mcpClient!.callTool('run_task', { task: 'Slow task', timeout: 200 });
+
+    expect(toolResp.isError).toBe(true);
+    expect(toolResp.content[0].text).toContain('**Error Type**: Timeout');
+  });
+
   test('should use default timeout value when not specified', async () => {
     // Initialize MCP client
     const mcpClient = testEnv.getMcpClient();
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+
+// A 1x1 transparent PNG
+const PIXEL_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+/**
+ * Tests for the take_screenshot tool
+ */
+describe('Take Screenshot Tool', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should return the viewport as PNG image content by default', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    let params: any = null;
+    testEnv.registerRpcMethod('take_screenshot', async (req: RpcRequest): Promise<RpcResponse> => {
+      params = req.params;
+      return { result: { data: PIXEL_PNG, mimeType: 'image/png', width: 1, height: 1 } };
+    });
+
+    const toolResp = await mcpClient.callTool('take_screenshot', {});
+
+    expect(params).toEqual({ fullPage: false, format: 'png' });
+    expect(toolResp.isError).toBeFalsy();
+    expect(toolResp.content).toEqual([
+      { type: 'image', data: PIXEL_PNG, mimeType: 'image/png' },
+      { type: 'text', text: 'Screenshot of the viewport, 1x1 image/png' },
+    ]);
+  });
+
+  test('should pass the element, format, quality and maximum width to the extension', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    let params: any = null;
+    testEnv.registerRpcMethod('take_screenshot', async (req: RpcRequest): Promise<RpcResponse> => {
+      params = req.params;
+      return { result: { data: '/9j/4AAQ', mimeType: 'image/jpeg', width: 400, height: 120 } };
+    });
+
+    const toolResp = await mcpClient.callTool('take_screenshot', {
+      selector: '#chart',
+      format: 'jpeg',
+      quality: 60,
+      maxWidth: 400,
+    });
+
+    expect(params).toEqual({
+      target: { selector: '#chart' },
+      fullPage: false,
+      format: 'jpeg',
+      quality: 60,
+      maxWidth: 400,
+    });
+    expect(toolResp.content[0]).toEqual({ type: 'image', data: '/9j/4AAQ', mimeType: 'image/jpeg' });
+    expect(toolResp.content[1].text).toBe('Screenshot of element "#chart", 400x120 image/jpeg');
+  });
+
+  test('should receive screenshots larger than a native messaging frame', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    // The mock extension sends this as chunk messages
+    const data = Buffer.alloc(1536 * 1024, 7).toString('base64');
+    testEnv.registerRpcMethod('take_screenshot', async (): Promise<RpcResponse> => {
+      return { result: { data, mimeType: 'image/png', width: 2560, height: 8000 } };
+    });
+
+    const toolResp = await mcpClient.callTool('take_screenshot', { fullPage: true });
+
+    expect(toolResp.content[0].data).toBe(data);
+    expect(toolResp.content[1].text).toBe('Screenshot of the full page, 2560x8000 image/png');
+  });
+
+  test('should reject conflicting options', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    const elementAndPage = await mcpClient.callTool('take_screenshot', { index: 2, fullPage: true });
+    expect(elementAndPage.isError).toBe(true);
+    expect(elementAndPage.content[0].text).toBe(
+      'take_screenshot failed (invalid_params): Specify either an element or fullPage, not both',
+    );
+
+    const pngQuality = await mcpClient.callTool('take_screenshot', { quality: 50 });
+    expect(pngQuality.isError).toBe(true);
+    expect(pngQuality.content[0].text).toContain('quality only applies to the jpeg format');
+  });
+});
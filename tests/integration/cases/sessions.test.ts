@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+
+/**
+ * Tests for MCP session management
+ * Focused on session isolation, termination and idle-timeout eviction
+ */
+describe('MCP Sessions', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  /**
+   * Send a tools/list request on an existing Streamable HTTP session
+   */
+  const listToolsRaw = async (sessionId: string): Promise<number> => {
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${testEnv.getAuthToken()}`,
+        'Mcp-Session-Id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 99, method: 'tools/list' }),
+    });
+    await response.body?.cancel();
+    return response.status;
+  };
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment({ env: { MCP_SESSION_IDLE_TIMEOUT: '1000' } });
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should keep active sessions alive', async () => {
+    const mcpClient = testEnv.createMcpClient();
+    await mcpClient.initialize('streamable-http');
+
+    // Keep the session busy for longer than the idle timeout
+    for (let i = 0; i < 4; i++) {
+      await new Promise(resolve => setTimeout(resolve, 400));
+      await mcpClient.listTools();
+    }
+
+    await mcpClient.close();
+  });
+
+  test('should isolate sessions from each other', async () => {
+    const firstClient = testEnv.createMcpClient();
+    const secondClient = testEnv.createMcpClient();
+    await firstClient.initialize('streamable-http');
+    await secondClient.initialize('sse');
+
+    // Terminating the first session must not affect the second one
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/mcp`, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${testEnv.getAuthToken()}`,
+        'Mcp-Session-Id': firstClient.getSessionId()!,
+      },
+    });
+    expect(response.status).toBe(200);
+
+    const tools = await secondClient.listTools();
+    expect(tools.tools.length).toBeGreaterThan(0);
+
+    await firstClient.close();
+    await secondClient.close();
+  });
+
+  test('should evict idle sessions', async () => {
+    const mcpClient = testEnv.createMcpClient();
+    await mcpClient.initialize('streamable-http');
+
+    const sessionId = mcpClient.getSessionId();
+    expect(sessionId).toBeTruthy();
+    expect(await listToolsRaw(sessionId!)).toBe(200);
+
+    // Idle timeout is 1s and the eviction sweep runs every second
+    await new Promise(resolve => setTimeout(resolve, 2500));
+
+    expect(await listToolsRaw(sessionId!)).toBe(404);
+
+    await mcpClient.close();
+  });
+
+  test('should close sessions terminated by the client', async () => {
+    const mcpClient = testEnv.createMcpClient();
+    await mcpClient.initialize('streamable-http');
+
+    const sessionId = mcpClient.getSessionId();
+    expect(sessionId).toBeTruthy();
+
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/mcp`, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${testEnv.getAuthToken()}`,
+        'Mcp-Session-Id': sessionId!,
+      },
+    });
+    expect(response.status).toBe(200);
+
+    expect(await listToolsRaw(sessionId!)).toBe(404);
+
+    await mcpClient.close();
+  });
+  test('should list sessions and let operators close them', async () => {
+    const mcpClient = testEnv.createMcpClient();
+    await mcpClient.initialize('streamable-http');
+    const sessionId = mcpClient.getSessionId()!;
+    const authorization = { Authorization: `Bearer ${testEnv.getAuthToken()}` };
+
+    const unauthenticated = await fetch(`http://localhost:${testEnv.getPort()}/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+    expect(unauthenticated.status).toBe(401);
+
+    const listed = await fetch(`http://localhost:${testEnv.getPort()}/sessions`, { headers: authorization });
+    expect(listed.status).toBe(200);
+    const { sessions } = await listed.json();
+    expect(sessions).toContainEqual(
+      expect.objectContaining({
+        id: sessionId,
+        transportType: 'streamable-http',
+        clientInfo: expect.objectContaining({ name: 'mcp-test-client' }),
+      }),
+    );
+
+    const closed = await fetch(`http://localhost:${testEnv.getPort()}/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: authorization,
+    });
+    expect(closed.status).toBe(204);
+    expect(await listToolsRaw(sessionId)).toBe(404);
+
+    const unknown = await fetch(`http://localhost:${testEnv.getPort()}/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: authorization,
+    });
+    expect(unknown.status).toBe(404);
+
+    await mcpClient.close();
+  });
+});
@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+import { RpcErrorCode } from '../../../src/errors';
+
+/**
+ * Tests for the tab management tools, against a mock extension that keeps a list of tabs
+ */
+describe('Tab Management Tools', () => {
+  let testEnv: McpHostTestEnvironment;
+  let tabs: Array<{ id: number; url: string; title: string; active: boolean }>;
+  let nextTabId: number;
+
+  const findTab = (tabId: number) => tabs.find(tab => tab.id === tabId)!;
+
+  const activate = (tabId: number) => {
+    for (const tab of tabs) {
+      tab.active = tab.id === tabId;
+    }
+  };
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+
+    tabs = [
+      { id: 1, url: 'https://example.com/', title: 'Example', active: true },
+      { id: 2, url: 'https://example.org/docs', title: 'Docs', active: false },
+    ];
+    nextTabId = 3;
+
+    testEnv.registerRpcMethod('list_tabs', async (): Promise<RpcResponse> => {
+      return { result: { tabs } };
+    });
+
+    testEnv.registerRpcMethod('open_tab', async (req: RpcRequest): Promise<RpcResponse> => {
+      const tab = { id: nextTabId++, url: req.params.url ?? 'about:blank', title: 'New Tab', active: false };
+      tabs.push(tab);
+      if (req.params.active) {
+        activate(tab.id);
+      }
+      return { result: { tab } };
+    });
+
+    testEnv.registerRpcMethod('switch_tab', async (req: RpcRequest): Promise<RpcResponse> => {
+      const tab = findTab(req.params.tabId);
+      activate(tab.id);
+      return { result: { tab } };
+    });
+
+    testEnv.registerRpcMethod('close_tab', async (req: RpcRequest): Promise<RpcResponse> => {
+      const tab = req.params.tabId === undefined ? tabs.find(tab => tab.active)! : findTab(req.params.tabId);
+      tabs = tabs.filter(other => other !== tab);
+      if (tab.active && tabs.length > 0) {
+        activate(tabs[0].id);
+      }
+      return { result: { closedTabId: tab.id, activeTab: tabs.find(tab => tab.active) } };
+    });
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should list the open tabs', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    const toolResp = await mcpClient.callTool('list_tabs', {});
+
+    expect(toolResp.content[0].text).toBe(
+      '- tab 1: "Example" <https://example.com/> (active)\n- tab 2: "Docs" <https://example.org/docs>',
+    );
+  });
+
+  test('should open, switch between and close tabs', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    const opened = await mcpClient.callTool('open_tab', { url: 'https://example.net/' });
+    expect(opened.content[0].text).toBe('Opened tab 3: "New Tab" <https://example.net/>');
+    expect(tabs.find(tab => tab.active)?.id).toBe(3);
+
+    const background = await mcpClient.callTool('open_tab', { active: false });
+    expect(background.content[0].text).toBe('Opened tab 4: "New Tab" <about:blank>');
+    expect(tabs.find(tab => tab.active)?.id).toBe(3);
+
+    const switched = await mcpClient.callTool('switch_tab', { tabId: 2 });
+    expect(switched.content[0].text).toBe('Switched to tab 2: "Docs" <https://example.org/docs>');
+
+    const closedActive = await mcpClient.callTool('close_tab', {});
+    expect(closedActive.content[0].text).toBe('Closed tab 2. Active tab 1: "Example" <https://example.com/>');
+
+    const closedById = await mcpClient.callTool('close_tab', { tabId: 4 });
+    expect(closedById.content[0].text).toBe('Closed tab 4. Active tab 1: "Example" <https://example.com/>');
+    expect(tabs.map(tab => tab.id)).toEqual([1, 3]);
+  });
+
+  test('should report unknown tabs as tool errors', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    testEnv.registerRpcMethod('switch_tab', async (req: RpcRequest): Promise<RpcResponse> => {
+      return { error: { code: RpcErrorCode.INVALID_PARAMS, message: `No tab with id ${req.params.tabId}` } };
+    });
+
+    const toolResp = await mcpClient.callTool('switch_tab', { tabId: 42 });
+
+    expect(toolResp.isError).toBe(true);
+    expect(toolResp.content[0].text).toBe('switch_tab failed (invalid_params): No tab with id 42');
+  });
+
+  test('should report when the last tab was closed', async () => {
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+
+    testEnv.registerRpcMethod('close_tab', async (): Promise<RpcResponse> => {
+      return { result: { closedTabId: 1 } };
+    });
+
+    const toolResp = await mcpClient.callTool('close_tab', { tabId: 1 });
+
+    expect(toolResp.content[0].text).toBe('Closed tab 1. No tabs are left open');
+  });
+});
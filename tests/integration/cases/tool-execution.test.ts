@@ -1,6 +1,7 @@
 import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from 'vitest';
 import { McpHostTestEnvironment } from '../mcp-host-test-environment';
 import { RpcRequest, RpcResponse } from '../../../src/types';
+import { RpcErrorCode } from '../../../src/errors';
 
 /**
  * Tests for MCP tool execution
@@ -57,8 +58,9 @@ describe('Tool Execution', () => {
     testEnv.registerRpcMethod('navigate_to', async (req: RpcRequest): Promise<RpcResponse> => {
       browserState.activeTab.url = req.params.url;
 
+      // The site redirects to a trailing slash
       return {
-        result: 'success',
+        result: { url: `${req.params.url}/`, title: 'Test Example', status: 200 },
       };
     });
 
@@ -69,9 +71,41 @@ describe('Tool Execution', () => {
     // Execute the navigate_to tool
     const testUrl = 'https://test-example.com';
     const toolResp = await mcpClient!.callTool('navigate_to', { url: testUrl });
-    expect(toolResp.content[0].text).toBe('navigate_to https://test-example.com ok');
+    expect(toolResp.content[0].text).toBe('Navigated to "Test Example" <https://test-example.com/> (HTTP 200)');
 
     // Verify action was forwarded to the browser
     expect(browserState.activeTab.url).toBe('https://test-example.com');
   });
+
+  test('should accept the bare acknowledgement of older extensions', async () => {
+    const mcpClient = testEnv.getMcpClient();
+    await mcpClient!.initialize();
+
+    testEnv.registerRpcMethod('navigate_to', async (): Promise<RpcResponse> => {
+      return { result: 'success' };
+    });
+
+    const toolResp = await mcpClient!.callTool('navigate_to', { url: 'https://test-example.com' });
+
+    expect(toolResp.isError).toBeFalsy();
+    expect(toolResp.content[0].text).toBe('navigate_to https://test-example.com ok');
+  });
+
+  test('should return extension errors as tool errors', async () => {
+    const mcpClient = testEnv.getMcpClient();
+    await mcpClient!.initialize();
+
+    testEnv.registerRpcMethod('navigate_to', async (): Promise<RpcResponse> => {
+      return {
+        error: { code: RpcErrorCode.POLICY_DENIED, message: 'Navigation to blocked.example.com is not allowed' },
+      };
+    });
+
+    const toolResp = await mcpClient!.callTool('navigate_to', { url: 'https://blocked.example.com' });
+
+    expect(toolResp.isError).toBe(true);
+    expect(toolResp.content[0].text).toBe(
+      'navigate_to failed (policy_denied): Navigation to blocked.example.com is not allowed',
+    );
+  });
 });
@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+import { readRecording, RecordedFrame } from '../../../src/traffic-recorder';
+import { RpcRequest, RpcResponse } from '../../../src/types';
+
+/**
+ * Tests for recording native messaging traffic and replaying it as the extension
+ */
+describe('Traffic Recording and Replay', () => {
+  let recordDir: string;
+  let recordFile: string;
+  let recording: RecordedFrame[];
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    recordDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-host-recording-'));
+    recordFile = path.join(recordDir, 'session.jsonl');
+
+    // Record a session in which the extension runs one task
+    const testEnv = new McpHostTestEnvironment({ env: { MCP_NATIVE_RECORD_FILE: recordFile } });
+    await testEnv.setup();
+
+    testEnv.registerRpcMethod('run_task', async (req: RpcRequest): Promise<RpcResponse> => {
+      await testEnv.sendMessage({ type: 'rpc_progress', id: req.id, progress: 1, total: 2, message: 'Opened page' });
+      return { result: 'Recorded task result' };
+    });
+
+    const mcpClient = testEnv.getMcpClient()!;
+    await mcpClient.initialize();
+    await mcpClient.callTool('run_task', { task: 'Recorded task' });
+
+    await testEnv.cleanup();
+    recording = readRecording(recordFile);
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(recordDir, { recursive: true, force: true });
+  });
+
+  test('should record inbound and outbound frames with timestamps', () => {
+    expect(fs.statSync(recordFile).mode & 0o777).toBe(0o600);
+
+    const summary = recording.map(frame => `${frame.direction} ${frame.message.type}`);
+    expect(summary).toEqual(
+      expect.arrayContaining(['in init', 'out init_ack', 'out rpc_request', 'in rpc_progress', 'in rpc_response']),
+    );
+    expect(summary.indexOf('out rpc_request')).toBeLessThan(summary.indexOf('in rpc_response'));
+
+    const request = recording.find(frame => frame.message.type === 'rpc_request')!;
+    expect(request.message).toMatchObject({ method: 'run_task', params: { task: 'Recorded task' } });
+    expect(Number.isNaN(Date.parse(request.time))).toBe(false);
+  });
+
+  test('should replay a recording as the extension', async () => {
+    const testEnv = new McpHostTestEnvironment({ recording });
+    await testEnv.setup();
+
+    try {
+      await vi.waitFor(() =>
+        expect(testEnv.getReplayedHostMessages()).toContainEqual(expect.objectContaining({ type: 'init_ack' })),
+      );
+
+      const mcpClient = testEnv.getMcpClient()!;
+      await mcpClient.initialize();
+
+      const updates: Progress[] = [];
+      const toolResp = await mcpClient.callTool(
+        'run_task',
+        { task: 'Recorded task' },
+        { onprogress: progress => updates.push(progress) },
+      );
+
+      expect(toolResp.content[0].text).toContain('Recorded task result');
+      await vi.waitFor(() => expect(updates).toEqual([{ progress: 1, total: 2, message: 'Opened page' }]));
+      await testEnv.waitForReplay();
+    } finally {
+      await testEnv.cleanup();
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+
+/**
+ * Tests for the MCP HTTP transports
+ * Focused on serving Streamable HTTP and legacy SSE clients from the same host
+ */
+describe('MCP Transports', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment();
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should connect using Streamable HTTP with a session ID', async () => {
+    const mcpClient = testEnv.createMcpClient();
+    await mcpClient.initialize('streamable-http');
+
+    expect(mcpClient.getSessionId()).toBeTruthy();
+
+    const tools = await mcpClient.listTools();
+    expect(tools.tools.find((t: any) => t.name === 'run_task')).toBeDefined();
+
+    await mcpClient.close();
+  });
+
+  test('should connect using the legacy SSE transport', async () => {
+    const mcpClient = testEnv.createMcpClient();
+    await mcpClient.initialize('sse');
+
+    const tools = await mcpClient.listTools();
+    expect(tools.tools.find((t: any) => t.name === 'run_task')).toBeDefined();
+
+    await mcpClient.close();
+  });
+
+  test('should reject Streamable HTTP requests with an unknown session ID', async () => {
+    const response = await fetch(`http://localhost:${testEnv.getPort()}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${testEnv.getAuthToken()}`,
+        'Mcp-Session-Id': 'unknown-session',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('MCP Transports with SSE disabled', () => {
+  let testEnv: McpHostTestEnvironment;
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment({ env: { MCP_SSE_ENABLED: 'false' } });
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should still serve Streamable HTTP clients', async () => {
+    const mcpClient = testEnv.createMcpClient();
+    await mcpClient.initialize('streamable-http');
+
+    const tools = await mcpClient.listTools();
+    expect(tools.tools.length).toBeGreaterThan(0);
+
+    await mcpClient.close();
+  });
+
+  test('should refuse legacy SSE clients', async () => {
+    const mcpClient = testEnv.createMcpClient();
+
+    await expect(mcpClient.initialize('sse')).rejects.toThrow();
+
+    await mcpClient.close();
+  });
+});
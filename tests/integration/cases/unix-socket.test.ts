@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { McpHostTestEnvironment } from '../mcp-host-test-environment';
+
+/**
+ * Tests for the Unix domain socket listener
+ * Focused on serving MCP over a user-only socket alongside the TCP port
+ */
+describe('Unix Domain Socket Listener', () => {
+  let testEnv: McpHostTestEnvironment;
+  const socketPath = path.join(os.tmpdir(), `mcp-host-test-${process.pid}.sock`);
+
+  /**
+   * Send an initialize request over the Unix domain socket
+   */
+  const initializeOverSocket = (headers: Record<string, string>): Promise<http.IncomingMessage> => {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        {
+          socketPath,
+          path: '/mcp',
+          method: 'POST',
+          headers: {
+            Host: 'localhost',
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        res => {
+          res.resume();
+          resolve(res);
+        },
+      );
+      req.on('error', reject);
+      req.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2025-03-26',
+            capabilities: {},
+            clientInfo: { name: 'socket-test-client', version: '1.0.0' },
+          },
+        }),
+      );
+    });
+  };
+
+  beforeAll(async () => {
+    // Suppress console.error during tests
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    testEnv = new McpHostTestEnvironment({
+      env: { MCP_SOCKET_ENABLED: 'true', MCP_SOCKET_PATH: socketPath },
+    });
+    await testEnv.setup();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testEnv.cleanup();
+  });
+
+  test('should create the socket accessible only to the current user', () => {
+    const stats = fs.statSync(socketPath);
+    expect(stats.isSocket()).toBe(true);
+    expect(stats.mode & 0o777).toBe(0o600);
+  });
+
+  test('should serve MCP requests over the socket', async () => {
+    const res = await initializeOverSocket({ Authorization: `Bearer ${testEnv.getAuthToken()}` });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['mcp-session-id']).toBeTruthy();
+  });
+
+  test('should require authentication over the socket', async () => {
+    const res = await initializeOverSocket({});
+    expect(res.statusCode).toBe(401);
+  });
+
+  test('should remove the socket on shutdown', async () => {
+    await testEnv.shutdown();
+
+    // Give process time to exit
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    expect(fs.existsSync(socketPath)).toBe(false);
+  });
+});
@@ -1,10 +1,34 @@
 import * as net from 'net';
+import { randomBytes } from 'crypto';
 import { ChildProcess, spawn } from 'child_process';
 import { McpHttpClient } from './mcp-http-client';
 import { MessageHandler, type RpcHandler, RpcRequest, RpcRequestOptions, RpcResponse } from '../../src/types';
 import { NativeMessaging } from '../../src/messaging.js';
+import { PROTOCOL_VERSION } from '../../src/protocol';
+import { RecordedFrame } from '../../src/traffic-recorder';
+import { TrafficReplayer } from '../../src/traffic-replayer';
 import { createLogger } from '../../src/logger';
 
+/**
+ * RPC methods the mock extension reports in its init handshake by default
+ */
+export const DEFAULT_EXTENSION_METHODS = [
+  'run_task',
+  'navigate_to',
+  'get_browser_state',
+  'click_element',
+  'type_text',
+  'fill_form',
+  'take_screenshot',
+  'list_tabs',
+  'open_tab',
+  'switch_tab',
+  'close_tab',
+  'go_back',
+  'go_forward',
+  'reload_page',
+];
+
 /**
  * Test environment for MCP Host integration tests
  * Manages the lifecycle of an MCP Host process with mock stdio communication
@@ -15,8 +39,17 @@ export class McpHostTestEnvironment {
   private hostProcess: ChildProcess | null = null;
   private mcpClient: McpHttpClient | null = null;
   private nativeMessaging: NativeMessaging | null = null;
+  private replayer: TrafficReplayer | null = null;
+  private replayPromise: Promise<void> | null = null;
 
   private port: number;
+  private env: Record<string, string>;
+  private protocol: 'http' | 'https';
+  private init: Record<string, unknown> | null;
+  private recording: RecordedFrame[] | null;
+  private initAck: any = null;
+  private errors: any[] = [];
+  private authToken: string = randomBytes(16).toString('hex');
   private exitCode: number | null = null;
   private exitPromise: Promise<number> | null = null;
 
@@ -24,9 +57,24 @@ export class McpHostTestEnvironment {
    * Create a new test environment
    * @param options Configuration options
    */
-  constructor(options?: { port?: number }) {
+  constructor(options?: {
+    port?: number;
+    env?: Record<string, string>;
+    protocol?: 'http' | 'https';
+    init?: Record<string, unknown> | null;
+    recording?: RecordedFrame[];
+  }) {
     // Use provided port or find an available one
     this.port = options?.port || 0; // 0 will be replaced with actual port during setup
+    // Extra environment variables passed to the host process
+    this.env = options?.env || {};
+    // Protocol the host serves on its TCP port
+    this.protocol = options?.protocol || 'http';
+    // Fields of the init handshake sent by the mock extension; null leaves it to the test
+    this.init =
+      options?.init !== undefined ? options.init : { protocolVersion: PROTOCOL_VERSION, methods: DEFAULT_EXTENSION_METHODS };
+    // Recorded extension session played instead of the mock extension
+    this.recording = options?.recording || null;
   }
 
   /**
@@ -63,7 +111,7 @@ export class McpHostTestEnvironment {
     const startTime = Date.now();
     let attemptCount = 0;
 
-    this.logger.info(`Waiting for host to be ready at http://localhost:${this.port}...`);
+    this.logger.info(`Waiting for host to be ready at ${this.getBaseUrl()}...`);
 
     // Check repeatedly until host is ready or timeout
     while (Date.now() - startTime < timeout) {
@@ -101,9 +149,10 @@ export class McpHostTestEnvironment {
 
   /**
    * Setup the test environment
+   * @param options Set waitForReady to false for hosts that are expected to fail on startup
    * @returns A promise that resolves when the environment is ready
    */
-  async setup(): Promise<void> {
+  async setup(options?: { waitForReady?: boolean }): Promise<void> {
     // Find available port if not specified
     if (this.port === 0) {
       this.port = await this.findAvailablePort();
@@ -131,7 +180,9 @@ export class McpHostTestEnvironment {
         ...process.env,
         LOG_LEVEL: 'DEBUG',
         PORT: this.port.toString(),
-        LOW_LEVEL_TOOLS_ENABLED: 'true'
+        LOW_LEVEL_TOOLS_ENABLED: 'true',
+        MCP_AUTH_TOKEN: this.authToken,
+        ...this.env,
       },
     });
 
@@ -156,24 +207,46 @@ export class McpHostTestEnvironment {
       }
     });
 
-    // Connect mock stdio to the process
-    if (this.hostProcess && this.hostProcess.stdout && this.hostProcess.stdin) {
+    // Connect the recorded extension, or mock stdio, to the process
+    if (this.recording && this.hostProcess.stdout && this.hostProcess.stdin) {
+      this.replayer = new TrafficReplayer(this.recording, this.hostProcess.stdout, this.hostProcess.stdin, {
+        requestTimeout: 10000,
+      });
+      this.replayPromise = this.replayer.run();
+      // Failures surface through waitForReplay
+      this.replayPromise.catch(() => {});
+    } else if (this.hostProcess && this.hostProcess.stdout && this.hostProcess.stdin) {
       this.nativeMessaging = new NativeMessaging(this.hostProcess.stdout, this.hostProcess.stdin);
 
       this.nativeMessaging.registerHandler('status', async (data: any): Promise<void> => {
         this.logger.info('received status:', data);
       });
 
-      this.nativeMessaging.sendMessage({
-        type: 'init',
+      this.nativeMessaging.registerHandler('error', async (data: any): Promise<void> => {
+        this.logger.info('received error:', data);
+        this.errors.push(data);
       });
+
+      this.nativeMessaging.registerHandler('init_ack', async (data: any): Promise<void> => {
+        this.logger.info('received init_ack:', data);
+        this.initAck = data;
+      });
+
+      if (this.init) {
+        this.nativeMessaging.sendMessage({
+          type: 'init',
+          ...this.init,
+        });
+      }
     }
 
     // Create MCP client connected to the host's HTTP server
-    this.mcpClient = new McpHttpClient(`http://localhost:${this.port}/mcp`);
+    this.mcpClient = this.createMcpClient();
 
     // Wait for host to initialize
-    await this.waitForHostReady();
+    if (options?.waitForReady !== false) {
+      await this.waitForHostReady();
+    }
   }
 
   /**
@@ -228,6 +301,30 @@ export class McpHostTestEnvironment {
     return this.port;
   }
 
+  /**
+   * Create an additional MCP client connected to this host
+   * @returns A new, uninitialized MCP client
+   */
+  createMcpClient(): McpHttpClient {
+    return new McpHttpClient(`${this.getBaseUrl()}/mcp`, { authToken: this.authToken });
+  }
+
+  /**
+   * Get the base URL of the host's TCP listener
+   * @returns The base URL, without a trailing slash
+   */
+  getBaseUrl(): string {
+    return `${this.protocol}://localhost:${this.port}`;
+  }
+
+  /**
+   * Get the bearer token the host was started with
+   * @returns The auth token
+   */
+  getAuthToken(): string {
+    return this.authToken;
+  }
+
   /**
    * Check if the host process is running
    * @returns True if the host is running, false otherwise
@@ -244,6 +341,56 @@ export class McpHostTestEnvironment {
     return this.exitCode;
   }
 
+  /**
+   * Wait for the host process to exit
+   * @param timeout Maximum time to wait in milliseconds
+   * @returns The exit code, or null if the process is still running
+   */
+  async waitForExit(timeout = 5000): Promise<number | null> {
+    if (!this.exitPromise) {
+      return this.exitCode;
+    }
+
+    await Promise.race([this.exitPromise, new Promise(resolve => setTimeout(resolve, timeout))]);
+    return this.exitCode;
+  }
+
+  /**
+   * Get the host's answer to the init handshake
+   * @returns The init_ack message, or null if none was received
+   */
+  getInitAck(): any {
+    return this.initAck;
+  }
+
+  /**
+   * Get the error messages the host sent to the extension
+   */
+  getErrors(): any[] {
+    return [...this.errors];
+  }
+
+  /**
+   * Wait until the recording passed to the constructor has been replayed
+   */
+  async waitForReplay(): Promise<void> {
+    await this.replayPromise;
+  }
+
+  /**
+   * Get the messages the host sent to the replayed extension
+   */
+  getReplayedHostMessages(): any[] {
+    return this.replayer?.getReceivedMessages() ?? [];
+  }
+
+  /**
+   * Simulate the extension going away by closing the host's stdin
+   */
+  disconnectExtension(): void {
+    this.hostProcess?.stdin?.end();
+  }
+
   /**
    * Shutdown the test environment
    * @returns A promise that resolves when shutdown is complete
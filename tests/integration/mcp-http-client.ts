@@ -1,6 +1,7 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { URL } from 'url';
 import { createLogger } from '../../src/logger';
 
@@ -12,6 +13,7 @@ import { createLogger } from '../../src/logger';
 export class McpHttpClient {
   private logger = createLogger('mcp-http-client');
   private baseUrl: string;
+  private authToken?: string;
   private sessionId: string | null = null;
   private client: Client;
   private transport: StreamableHTTPClientTransport | SSEClientTransport | null = null;
@@ -21,9 +23,11 @@ export class McpHttpClient {
   /**
    * Create a new MCP HTTP client
    * @param baseUrl The base URL of the MCP server
+   * @param options Optional bearer token sent with every request
    */
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, options?: { authToken?: string }) {
     this.baseUrl = baseUrl;
+    this.authToken = options?.authToken;
 
     // Try to connect using Streamable HTTP first
     this.client = new Client({
@@ -34,12 +38,20 @@ export class McpHttpClient {
 
   /**
    * Initialize a session with the MCP server
+   * @param transportType Transport to use; 'auto' tries Streamable HTTP and falls back to SSE
    */
-  public async initialize(): Promise<void> {
-    try {
-      this.logger.info('initialize with baseURL:', this.baseUrl);
+  public async initialize(transportType: 'auto' | 'streamable-http' | 'sse' = 'auto'): Promise<void> {
+    this.logger.info('initialize with baseURL:', this.baseUrl);
 
-      this.transport = new StreamableHTTPClientTransport(new URL(this.baseUrl));
+    if (transportType === 'sse') {
+      await this.connectSse();
+      return;
+    }
+
+    try {
+      this.transport = new StreamableHTTPClientTransport(new URL(this.baseUrl), {
+        requestInit: { headers: this.getAuthHeaders() },
+      });
 
       // Connect and initialize
       await this.client.connect(this.transport);
@@ -50,15 +62,44 @@ export class McpHttpClient {
         this.sessionId = (this.transport as any).sessionId;
       }
     } catch (error) {
+      if (transportType === 'streamable-http') {
+        throw error;
+      }
+
       // If that fails with a 4xx error, try the older SSE transport
       this.logger.error('Streamable HTTP connection failed, falling back to SSE transport', error);
-
-      const sseTransport = new SSEClientTransport(new URL(this.baseUrl));
-      await this.client.connect(sseTransport);
-      this.logger.info('Connected using SSE transport');
+      await this.connectSse();
     }
   }
 
+  /**
+   * Connect using the legacy SSE transport
+   */
+  private async connectSse(): Promise<void> {
+    const authHeaders = this.getAuthHeaders();
+    const sseTransport = new SSEClientTransport(new URL(this.baseUrl), {
+      eventSourceInit: {
+        fetch: (url, init) => {
+          const headers = new Headers(init?.headers);
+          Object.entries(authHeaders).forEach(([key, value]) => headers.set(key, value));
+          return fetch(url, { ...init, headers });
+        },
+      },
+      requestInit: { headers: authHeaders },
+    });
+    await this.client.connect(sseTransport);
+    this.transport = sseTransport;
+    this.sessionId = null;
+    this.logger.info('Connected using SSE transport');
+  }
+
+  /**
+   * Build the Authorization header for the configured token
+   */
+  private getAuthHeaders(): Record<string, string> {
+    return this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {};
+  }
+
   /**
    * List available resources
    */
@@ -87,12 +128,17 @@ export class McpHttpClient {
    * Call a tool
    * @param name The name of the tool to call
    * @param arguments The parameters to pass to the tool
+   * @param options Request options such as an abort signal or progress callback
    */
-  public async callTool(name: string, args: any): Promise<any> {
-    return await this.client.callTool({
-      name,
-      arguments: args,
-    });
+  public async callTool(name: string, args: any, options?: RequestOptions): Promise<any> {
+    return await this.client.callTool(
+      {
+        name,
+        arguments: args,
+      },
+      undefined,
+      options,
+    );
   }
 
   /**
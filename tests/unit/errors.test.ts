@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { RpcError, RpcErrorCode, toolErrorResult } from '../../src/errors';
+
+describe('RpcError', () => {
+  it('should keep the code, message and data of an extension error', () => {
+    const error = RpcError.fromResponse(
+      { code: RpcErrorCode.POLICY_DENIED, message: 'Site is blocked', data: { url: 'https://blocked.example.com' } },
+      'navigate_to',
+    );
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error.code).toBe(RpcErrorCode.POLICY_DENIED);
+    expect(error.codeName).toBe('policy_denied');
+    expect(error.message).toBe('Site is blocked');
+    expect(error.data).toEqual({ url: 'https://blocked.example.com' });
+  });
+
+  it('should treat malformed extension errors as internal errors', () => {
+    expect(RpcError.fromResponse('Something broke', 'run_task')).toMatchObject({
+      code: RpcErrorCode.INTERNAL_ERROR,
+      message: 'Something broke',
+    });
+    expect(RpcError.fromResponse({ code: 'oops' }, 'run_task')).toMatchObject({
+      code: RpcErrorCode.INTERNAL_ERROR,
+      message: 'run_task failed',
+    });
+  });
+
+  it('should name unknown codes by number', () => {
+    expect(new RpcError(4711, 'Custom failure').codeName).toBe('error 4711');
+  });
+
+  it('should wrap other errors as internal errors', () => {
+    const original = new RpcError(RpcErrorCode.TIMEOUT, 'Timed out');
+
+    expect(RpcError.from(original)).toBe(original);
+    expect(RpcError.from(new Error('Message too large'))).toMatchObject({
+      code: RpcErrorCode.INTERNAL_ERROR,
+      message: 'Message too large',
+    });
+  });
+
+  it('should build tool results flagged as errors', () => {
+    expect(toolErrorResult('navigate_to', new RpcError(RpcErrorCode.NOT_CONNECTED, 'Extension not connected'))).toEqual({
+      content: [{ type: 'text', text: 'navigate_to failed (not_connected): Extension not connected' }],
+      isError: true,
+    });
+  });
+});
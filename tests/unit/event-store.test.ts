@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from '../../src/event-store';
+
+/**
+ * Builds a tool result response carrying a payload of about the given size, like a screenshot
+ */
+function largeResponse(id: number, size: number): JSONRPCMessage {
+  return {
+    jsonrpc: '2.0',
+    id,
+    result: { content: [{ type: 'image', data: 'A'.repeat(size), mimeType: 'image/png' }] },
+  };
+}
+
+describe('InMemoryEventStore', () => {
+  it('should evict the oldest events once the size limit is exceeded', async () => {
+    const store = new InMemoryEventStore(1000, 1024 * 1024);
+
+    const eventIds: string[] = [];
+    for (let i = 0; i < 10; i++) {
+      eventIds.push(await store.storeEvent('stream-1', largeResponse(i, 300 * 1024)));
+    }
+
+    const usage = store.getUsage();
+    expect(usage.bytes).toBeLessThanOrEqual(1024 * 1024);
+    expect(usage.events).toBe(3);
+
+    // Only the retained events can be replayed
+    const replayed: JSONRPCMessage[] = [];
+    const streamId = await store.replayEventsAfter(eventIds[7], {
+      send: async (eventId, message) => {
+        replayed.push(message);
+      },
+    });
+    expect(streamId).toBe('stream-1');
+    expect(replayed.map(message => (message as any).id)).toEqual([8, 9]);
+    expect(await store.replayEventsAfter(eventIds[6], { send: async () => {} })).toBe('');
+  });
+
+  it('should keep the most recent event even when it exceeds the size limit on its own', async () => {
+    const store = new InMemoryEventStore(1000, 1024);
+
+    await store.storeEvent('stream-1', largeResponse(1, 100));
+    await store.storeEvent('stream-1', largeResponse(2, 4096));
+
+    const usage = store.getUsage();
+    expect(usage.events).toBe(1);
+    expect(usage.bytes).toBeGreaterThan(4096);
+  });
+
+  it('should still limit the number of events', async () => {
+    const store = new InMemoryEventStore(5);
+
+    for (let i = 0; i < 20; i++) {
+      await store.storeEvent('stream-1', largeResponse(i, 10));
+    }
+
+    expect(store.getUsage().events).toBe(5);
+  });
+});
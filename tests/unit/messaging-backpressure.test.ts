@@ -0,0 +1,124 @@
+import { Writable } from 'stream';
+import { describe, expect, it, vi } from 'vitest';
+import { NativeMessaging } from '../../src/messaging';
+
+/**
+ * Creates a stdout whose writes only complete when the test releases them
+ */
+function createSlowStdout() {
+  const written: Buffer[] = [];
+  const callbacks: Array<() => void> = [];
+
+  const stdout = new Writable({
+    highWaterMark: 64,
+    write(chunk, encoding, callback) {
+      written.push(Buffer.from(chunk));
+      callbacks.push(callback);
+    },
+  });
+
+  // Completes the pending write; the stream then drains and asks for the next frame
+  const release = () => callbacks.shift()?.();
+
+  return { stdout, written, release };
+}
+
+describe('NativeMessaging outbound queue', () => {
+  it('should hold frames until stdout drains', async () => {
+    const stdio = createMockStdio();
+    const slow = createSlowStdout();
+    const messaging = new NativeMessaging(stdio.stdin, slow.stdout);
+
+    messaging.sendMessage({ type: 'status', data: 'a'.repeat(100) });
+    messaging.sendMessage({ type: 'status', data: 'b'.repeat(100) });
+    messaging.sendMessage({ type: 'status', data: 'c'.repeat(100) });
+
+    // The first write fills the stream buffer; the rest wait in the queue
+    expect(slow.written).toHaveLength(1);
+    expect(messaging.getOutboundQueueDepth().frames).toBe(2);
+    expect(messaging.getOutboundQueueDepth().bytes).toBeGreaterThan(200);
+
+    slow.release();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(slow.written).toHaveLength(2);
+    expect(messaging.getOutboundQueueDepth().frames).toBe(1);
+
+    slow.release();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(slow.written).toHaveLength(3);
+    expect(messaging.getOutboundQueueDepth()).toEqual({ frames: 0, bytes: 0 });
+
+    const data = slow.written.map(frame => JSON.parse(frame.subarray(4).toString('utf8')).data[0]);
+    expect(data).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should fail sends once the queue limit is reached', () => {
+    const stdio = createMockStdio();
+    const slow = createSlowStdout();
+    const messaging = new NativeMessaging(stdio.stdin, slow.stdout, { maxOutboundQueueBytes: 300 });
+
+    messaging.sendMessage({ type: 'status', data: 'a'.repeat(100) });
+    messaging.sendMessage({ type: 'status', data: 'b'.repeat(100) });
+    messaging.sendMessage({ type: 'status', data: 'c'.repeat(100) });
+
+    expect(() => messaging.sendMessage({ type: 'status', data: 'd'.repeat(100) })).toThrow(/Outbound queue full/);
+    expect(messaging.getOutboundQueueDepth().frames).toBe(2);
+  });
+
+  it('should fail an RPC request that cannot be queued', async () => {
+    const stdio = createMockStdio();
+    const slow = createSlowStdout();
+    const messaging = new NativeMessaging(stdio.stdin, slow.stdout, { maxOutboundQueueBytes: 150 });
+
+    messaging.sendMessage({ type: 'status', data: 'a'.repeat(100) });
+    messaging.sendMessage({ type: 'status', data: 'b'.repeat(100) });
+
+    await expect(messaging.rpcRequest({ method: 'run_task', params: { task: 'x' } })).rejects.toThrow(
+      /Outbound queue full/,
+    );
+    expect(messaging.getPendingRequestCount()).toBe(0);
+  });
+
+  it('should keep reading when errors about invalid frames cannot be queued', async () => {
+    const stdio = createMockStdio();
+    const slow = createSlowStdout();
+    const messaging = new NativeMessaging(stdio.stdin, slow.stdout, {
+      maxOutboundQueueBytes: 150,
+      maxMessageSize: 1024,
+    });
+
+    const received: any[] = [];
+    messaging.registerHandler('probe', async data => {
+      received.push(data);
+    });
+
+    messaging.sendMessage({ type: 'status', data: 'a'.repeat(100) });
+    messaging.sendMessage({ type: 'status', data: 'b'.repeat(100) });
+
+    // A frame that is not JSON, then the header of a frame above maxMessageSize
+    const invalid = Buffer.from('not json', 'utf8');
+    const invalidLength = Buffer.alloc(4);
+    invalidLength.writeUInt32LE(invalid.length, 0);
+    const oversizedLength = Buffer.alloc(4);
+    oversizedLength.writeUInt32LE(4096, 0);
+    stdio.stdin.push(Buffer.concat([invalidLength, invalid, oversizedLength, Buffer.alloc(4096)]));
+    stdio.pushToStdin({ type: 'probe', value: 1 });
+
+    await vi.waitFor(() => expect(received).toEqual([{ value: 1 }]));
+    expect(messaging.getOutboundQueueDepth().frames).toBe(1);
+  });
+
+  it('should drop queued frames when the extension disconnects', () => {
+    const stdio = createMockStdio();
+    const slow = createSlowStdout();
+    const messaging = new NativeMessaging(stdio.stdin, slow.stdout);
+
+    messaging.sendMessage({ type: 'status', data: 'a'.repeat(100) });
+    messaging.sendMessage({ type: 'status', data: 'b'.repeat(100) });
+    expect(messaging.getOutboundQueueDepth().frames).toBe(1);
+
+    stdio.stdin.emit('end');
+
+    expect(messaging.getOutboundQueueDepth()).toEqual({ frames: 0, bytes: 0 });
+  });
+});
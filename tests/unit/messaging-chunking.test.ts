@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NativeMessaging } from '../../src/messaging';
+
+/**
+ * Splits a raw stdout capture into length-prefixed frames
+ */
+function splitFrames(buffer: Buffer): Buffer[] {
+  const frames: Buffer[] = [];
+  let offset = 0;
+
+  while (offset + 4 <= buffer.length) {
+    const length = buffer.readUInt32LE(offset);
+    frames.push(buffer.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+
+  return frames;
+}
+
+/**
+ * Builds the chunk messages the extension would send for a message
+ */
+function toChunks(message: any, chunkSize: number, id = 'chunked-1') {
+  const payload = Buffer.from(JSON.stringify(message), 'utf8');
+  const total = Math.ceil(payload.length / chunkSize);
+
+  return Array.from({ length: total }, (_, seq) => ({
+    type: 'chunk',
+    id,
+    seq,
+    total,
+    data: payload.subarray(seq * chunkSize, (seq + 1) * chunkSize).toString('base64'),
+  }));
+}
+
+describe('NativeMessaging chunked framing', () => {
+  let stdio: ReturnType<typeof createMockStdio>;
+  let written: Buffer[];
+
+  beforeEach(() => {
+    stdio = createMockStdio();
+    written = [];
+
+    const write = stdio.stdout.write.bind(stdio.stdout);
+    vi.spyOn(stdio.stdout, 'write').mockImplementation((chunk: any, ...args: any[]) => {
+      written.push(Buffer.from(chunk));
+      return write(chunk, ...args);
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should send messages that fit in a frame unchanged', () => {
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    messaging.sendMessage({ type: 'status', data: { ok: true } });
+
+    expect(stdio.readFromStdout()).toEqual([{ type: 'status', data: { ok: true } }]);
+  });
+
+  it('should split messages larger than 1 MB into frames Chrome accepts', async () => {
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    const message = { type: 'rpc_response', id: 'large', result: { html: 'é'.repeat(1536 * 1024) } };
+
+    messaging.sendMessage(message);
+
+    // Frames after the first wait for stdout to drain
+    await vi.waitFor(() => expect(messaging.getOutboundQueueDepth().frames).toBe(0));
+
+    const frames = splitFrames(Buffer.concat(written));
+    expect(frames.length).toBeGreaterThan(1);
+    for (const frame of frames) {
+      expect(frame.length).toBeLessThanOrEqual(1024 * 1024);
+    }
+
+    const chunks = frames.map(frame => JSON.parse(frame.toString('utf8')));
+    expect(new Set(chunks.map(chunk => chunk.id)).size).toBe(1);
+    expect(chunks.map(chunk => chunk.seq)).toEqual(chunks.map((_, index) => index));
+    expect(chunks.every(chunk => chunk.type === 'chunk' && chunk.total === chunks.length)).toBe(true);
+
+    const reassembled = Buffer.concat(chunks.map(chunk => Buffer.from(chunk.data, 'base64')));
+    expect(JSON.parse(reassembled.toString('utf8'))).toEqual(message);
+  });
+
+  it('should reject outgoing messages above the maximum message size', () => {
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout, { maxMessageSize: 1024 });
+
+    expect(() => messaging.sendMessage({ type: 'status', data: 'x'.repeat(2048) })).toThrow(/exceeds the limit/);
+    expect(written).toHaveLength(0);
+  });
+
+  it('should fail an RPC request whose params are too large to send', async () => {
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout, { maxMessageSize: 1024 });
+
+    await expect(messaging.rpcRequest({ method: 'run_task', params: { task: 'x'.repeat(2048) } })).rejects.toThrow(
+      /exceeds the limit/,
+    );
+    expect(messaging.getPendingRequestCount()).toBe(0);
+  });
+
+  it('should reassemble chunked incoming messages in any order', async () => {
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    const handler = vi.fn(async () => {});
+    messaging.registerHandler('snapshot', handler);
+
+    const message = { type: 'snapshot', html: '<div>'.repeat(200) };
+    const chunks = toChunks(message, 100);
+    expect(chunks.length).toBeGreaterThan(2);
+
+    stdio.pushToStdin(chunks[chunks.length - 1]);
+    stdio.pushToStdin(chunks[0]);
+    stdio.pushToStdin(chunks[0]);
+    for (const chunk of chunks.slice(1, -1)) {
+      stdio.pushToStdin(chunk);
+    }
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    expect(handler).toHaveBeenCalledWith({ html: message.html });
+  });
+
+  it('should resolve RPC requests whose response arrives in chunks', async () => {
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    const promise = messaging.rpcRequest({ method: 'get_state' });
+    const [request] = stdio.readFromStdout();
+
+    for (const chunk of toChunks({ type: 'rpc_response', id: request.id, result: { dom: 'a'.repeat(1000) } }, 256)) {
+      stdio.pushToStdin(chunk);
+    }
+
+    await expect(promise).resolves.toEqual({ dom: 'a'.repeat(1000) });
+  });
+
+  it('should drop chunked messages that exceed the maximum message size', async () => {
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout, { maxMessageSize: 512 });
+    const handler = vi.fn(async () => {});
+    messaging.registerHandler('snapshot', handler);
+
+    for (const chunk of toChunks({ type: 'snapshot', html: 'x'.repeat(1000) }, 256)) {
+      stdio.pushToStdin(chunk);
+    }
+
+    await vi.waitFor(() =>
+      expect(stdio.readFromStdout()).toContainEqual(
+        expect.objectContaining({ type: 'error', error: expect.stringMatching(/exceeds the limit/) }),
+      ),
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should discard incoming frames above the maximum message size', async () => {
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout, { maxMessageSize: 512 });
+    const handler = vi.fn(async () => {});
+    messaging.registerHandler('snapshot', handler);
+
+    stdio.pushToStdin({ type: 'snapshot', html: 'x'.repeat(1000) });
+    stdio.pushToStdin({ type: 'snapshot', html: 'small' });
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    expect(handler).toHaveBeenCalledWith({ html: 'small' });
+    expect(stdio.readFromStdout()).toContainEqual(
+      expect.objectContaining({ type: 'error', error: expect.stringMatching(/exceeds the limit/) }),
+    );
+  });
+
+  it('should report chunked messages that never complete', async () => {
+    vi.useFakeTimers();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout, { chunkTimeout: 1000 });
+    const handler = vi.fn(async () => {});
+    messaging.registerHandler('snapshot', handler);
+
+    const chunks = toChunks({ type: 'snapshot', html: 'x'.repeat(1000) }, 256);
+    stdio.pushToStdin(chunks[0]);
+    await vi.waitFor(() => expect(vi.getTimerCount()).toBe(1));
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(stdio.readFromStdout()).toContainEqual(
+      expect.objectContaining({ type: 'error', error: expect.stringMatching(/Incomplete chunked message/) }),
+    );
+
+    // Late chunks start a new message instead of completing the dropped one
+    for (const chunk of chunks.slice(1)) {
+      stdio.pushToStdin(chunk);
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
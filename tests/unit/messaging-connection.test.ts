@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RpcErrorCode } from '../../src/errors';
+import { NativeMessaging } from '../../src/messaging';
+
+describe('NativeMessaging connection state', () => {
+  it('should become connected when the extension sends its first message', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    messaging.registerHandler('init', async () => {});
+
+    expect(messaging.getConnectionState()).toBe('connecting');
+    expect(messaging.isConnected()).toBe(false);
+
+    stdio.pushToStdin({ type: 'init' });
+
+    await vi.waitFor(() => expect(messaging.getConnectionState()).toBe('connected'));
+    expect(messaging.isConnected()).toBe(true);
+  });
+
+  it('should reject pending requests when stdin ends', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    const states: string[] = [];
+    messaging.onConnectionStateChange(state => states.push(state));
+    messaging.registerHandler('init', async () => {});
+
+    stdio.pushToStdin({ type: 'init' });
+    await vi.waitFor(() => expect(messaging.isConnected()).toBe(true));
+
+    const pending = messaging.rpcRequest({ method: 'run_task' }, { timeout: 60000 });
+    stdio.stdin.push(null);
+
+    await expect(pending).rejects.toThrow(/Extension not connected/);
+    expect(messaging.getPendingRequestCount()).toBe(0);
+    expect(states).toEqual(['connected', 'disconnected']);
+  });
+
+  it('should fail new requests immediately once disconnected', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    stdio.stdin.push(null);
+    await vi.waitFor(() => expect(messaging.getConnectionState()).toBe('disconnected'));
+    stdio.readFromStdout();
+
+    await expect(messaging.rpcRequest({ method: 'navigate_to' })).rejects.toMatchObject({
+      code: RpcErrorCode.NOT_CONNECTED,
+      message: expect.stringMatching(/Extension not connected/),
+    });
+    expect(stdio.readFromStdout()).toEqual([]);
+  });
+});
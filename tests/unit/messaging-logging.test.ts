@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../../src/logger';
+import { NativeMessaging } from '../../src/messaging';
+
+describe('NativeMessaging logging', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Collects every line the loggers write, at all levels
+   */
+  function captureLogLines(): string[] {
+    const lines: string[] = [];
+    const formatMessage = (Logger.prototype as any).formatMessage;
+    vi.spyOn(Logger.prototype as any, 'formatMessage').mockImplementation(function (this: Logger, ...args: any[]) {
+      const line = formatMessage.apply(this, args);
+      lines.push(line);
+      return line;
+    });
+    return lines;
+  }
+
+  it('should keep RPC params and results out of the log', async () => {
+    const lines = captureLogLines();
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    const secret = 'hunter2-correct-horse';
+
+    const response = messaging.rpcRequest({ method: 'type_text', params: { selector: '#password', text: secret } });
+
+    let request: any;
+    await vi.waitFor(() => {
+      request = stdio.readFromStdout().find(message => message.type === 'rpc_request');
+      expect(request).toBeDefined();
+    });
+    expect(request.params.text).toBe(secret);
+
+    stdio.pushToStdin({ type: 'rpc_response', id: request.id, result: { success: true, value: secret } });
+    expect(await response).toEqual({ success: true, value: secret });
+
+    expect(lines.filter(line => line.includes(secret))).toEqual([]);
+    expect(lines).toContainEqual(expect.stringMatching(/Sending message: \{"type":"rpc_request","id":".+","method":"type_text","bytes":\d+\}/));
+    expect(lines).toContainEqual(expect.stringMatching(/Received message: \{"type":"rpc_response","id":".+","bytes":\d+\}/));
+  });
+
+  it('should keep chunked RPC results out of the log', async () => {
+    const lines = captureLogLines();
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    const response = messaging.rpcRequest({ method: 'fill_form', params: { fields: [] } });
+
+    let request: any;
+    await vi.waitFor(() => {
+      request = stdio.readFromStdout().find(message => message.type === 'rpc_request');
+      expect(request).toBeDefined();
+    });
+
+    // Sent as chunks by the extension, like a large form or screenshot
+    const json = Buffer.from(JSON.stringify({ type: 'rpc_response', id: request.id, result: { value: 'secret' } }));
+    stdio.pushToStdin({ type: 'chunk', id: 'c1', seq: 0, total: 2, data: json.subarray(0, 20).toString('base64') });
+    stdio.pushToStdin({ type: 'chunk', id: 'c1', seq: 1, total: 2, data: json.subarray(20).toString('base64') });
+    expect(await response).toEqual({ value: 'secret' });
+
+    expect(lines.filter(line => line.includes('secret') || line.includes('"data"'))).toEqual([]);
+    expect(lines).toContainEqual(expect.stringMatching(/Received message: \{"type":"chunk","id":"c1","seq":1,"total":2,"bytes":\d+\}/));
+  });
+
+  it('should only log the size of large messages', async () => {
+    const lines = captureLogLines();
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    const response = messaging.rpcRequest({ method: 'take_screenshot', params: {} });
+
+    let request: any;
+    await vi.waitFor(() => {
+      request = stdio.readFromStdout().find(message => message.type === 'rpc_request');
+      expect(request).toBeDefined();
+    });
+
+    // A screenshot of 3 MB arrives in chunks of at most 1 MB
+    const data = Buffer.alloc(3 * 1024 * 1024, 7).toString('base64');
+    const json = Buffer.from(JSON.stringify({ type: 'rpc_response', id: request.id, result: { data } }));
+    const chunkSize = 512 * 1024;
+    const total = Math.ceil(json.length / chunkSize);
+    for (let seq = 0; seq < total; seq++) {
+      const part = json.subarray(seq * chunkSize, (seq + 1) * chunkSize).toString('base64');
+      stdio.pushToStdin({ type: 'chunk', id: 'shot', seq, total, data: part });
+    }
+    expect(((await response) as any).data).toBe(data);
+
+    // Other large messages, e.g. a long progress message
+    stdio.pushToStdin({ type: 'status', message: 'x'.repeat(10000) });
+    messaging.sendMessage({ type: 'status', message: 'y'.repeat(10000) });
+
+    await vi.waitFor(() =>
+      expect(lines).toContainEqual(expect.stringMatching(/Received message: \{"type":"status","bytes":\d+\}/)),
+    );
+    expect(Math.max(...lines.map(line => line.length))).toBeLessThan(1024);
+    expect(lines).toContainEqual(expect.stringMatching(/Sending message: \{"type":"status","bytes":\d+\}/));
+  });
+
+  it('should log other messages in full', async () => {
+    const lines = captureLogLines();
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    messaging.sendMessage({ type: 'status', state: 'ready' });
+
+    expect(lines).toContainEqual(expect.stringContaining('Sending message: {"type":"status","state":"ready"}'));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { RpcError, RpcErrorCode } from '../../src/errors';
+import { NativeMessaging } from '../../src/messaging';
+
+describe('NativeMessaging incoming RPC requests', () => {
+  /**
+   * Sends an RPC request from the mock extension and waits for the host's response
+   */
+  async function request(stdio: ReturnType<typeof createMockStdio>, method: string, params?: any) {
+    const id = `req-${method}`;
+    stdio.pushToStdin({ type: 'rpc_request', id, method, params });
+
+    let response: any;
+    await vi.waitFor(() => {
+      response = stdio.readFromStdout().find(message => message.type === 'rpc_response' && message.id === id);
+      expect(response).toBeDefined();
+    });
+    return response;
+  }
+
+  it('should answer with the handler result', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    messaging.registerRpcMethod('ping', async () => ({ result: { pong: true } }));
+
+    expect(await request(stdio, 'ping')).toEqual({ type: 'rpc_response', id: 'req-ping', result: { pong: true } });
+  });
+
+  it('should answer unknown methods with method not found', async () => {
+    const stdio = createMockStdio();
+    new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    const response = await request(stdio, 'does_not_exist');
+
+    expect(response.error).toMatchObject({
+      code: RpcErrorCode.METHOD_NOT_FOUND,
+      message: 'Method not found: does_not_exist',
+    });
+  });
+
+  it('should answer failing handlers with an internal error', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    messaging.registerRpcMethod('broken', async () => {
+      throw new Error('Handler exploded');
+    });
+
+    const response = await request(stdio, 'broken');
+
+    expect(response.error).toMatchObject({ code: RpcErrorCode.INTERNAL_ERROR, message: 'Handler exploded' });
+  });
+
+  it('should answer invalid params with invalid params', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    messaging.registerRpcMethod('open', async req => {
+      const { url } = z.object({ url: z.string().url() }).parse(req.params);
+      return { result: url };
+    });
+    messaging.registerRpcMethod('close', async () => {
+      throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'tabId is required');
+    });
+
+    const openResponse = await request(stdio, 'open', { url: 42 });
+    expect(openResponse.error.code).toBe(RpcErrorCode.INVALID_PARAMS);
+    expect(openResponse.error.message).toMatch(/^Invalid params: url: /);
+
+    const closeResponse = await request(stdio, 'close', {});
+    expect(closeResponse.error).toMatchObject({ code: RpcErrorCode.INVALID_PARAMS, message: 'tabId is required' });
+  });
+
+  it('should answer handlers that take too long with a timeout', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout, { incomingRequestTimeout: 50 });
+    messaging.registerRpcMethod('slow', () => new Promise(() => {}));
+
+    const response = await request(stdio, 'slow');
+
+    expect(response.error).toMatchObject({
+      code: RpcErrorCode.TIMEOUT,
+      message: 'Handler for slow did not respond within 50ms',
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { RpcErrorCode } from '../../src/errors';
+import { NativeMessaging } from '../../src/messaging';
+
+describe('NativeMessaging inbound validation', () => {
+  /**
+   * Pushes a raw JSON frame, bypassing the helper's JSON.stringify of objects
+   */
+  function pushRaw(stdio: ReturnType<typeof createMockStdio>, json: string) {
+    const payload = Buffer.from(json, 'utf8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(payload.length, 0);
+    stdio.stdin.push(Buffer.concat([length, payload]));
+  }
+
+  /**
+   * Waits for the host to send a message matching the expectation
+   */
+  async function expectSent(stdio: ReturnType<typeof createMockStdio>, expected: any) {
+    const sent: any[] = [];
+    await vi.waitFor(() => {
+      sent.push(...stdio.readFromStdout());
+      expect(sent).toContainEqual(expected);
+    });
+  }
+
+  it('should report frames that are not JSON', async () => {
+    const stdio = createMockStdio();
+    new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    pushRaw(stdio, '{not json');
+
+    await expectSent(stdio, { type: 'error', error: expect.stringMatching(/^Invalid message: /) });
+  });
+
+  it('should report messages without a type', async () => {
+    const stdio = createMockStdio();
+    new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    stdio.pushToStdin([1, 2, 3]);
+    await expectSent(stdio, { type: 'error', error: expect.stringMatching(/^Invalid message: /) });
+
+    stdio.pushToStdin({ id: 'no-type' });
+    await expectSent(stdio, { type: 'error', error: 'Invalid message: type: Required' });
+  });
+
+  it('should answer malformed RPC requests without calling the handler', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    const handler = vi.fn(async () => ({ result: 'ok' }));
+    messaging.registerRpcMethod('ping', handler);
+
+    stdio.pushToStdin({ type: 'rpc_request', id: 'bad-1', method: 42 });
+
+    await expectSent(stdio, {
+      type: 'rpc_response',
+      id: 'bad-1',
+      error: expect.objectContaining({ code: RpcErrorCode.INVALID_REQUEST }),
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should fail pending requests whose response is malformed', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    const pending = messaging.rpcRequest({ method: 'get_state' }, { timeout: 60000 });
+    const [request] = stdio.readFromStdout();
+
+    stdio.pushToStdin({ type: 'rpc_response', id: request.id, error: 'not an object' });
+
+    await expect(pending).rejects.toMatchObject({
+      code: RpcErrorCode.INTERNAL_ERROR,
+      message: expect.stringMatching(/^Invalid rpc_response from extension: error: /),
+    });
+    await expectSent(stdio, {
+      type: 'error',
+      originalType: 'rpc_response',
+      error: expect.stringMatching(/^Invalid rpc_response message: /),
+    });
+  });
+
+  it('should reject invalid chunks', async () => {
+    const stdio = createMockStdio();
+    new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    stdio.pushToStdin({ type: 'chunk', id: 'c1', seq: 3, total: 2, data: '' });
+
+    await expectSent(stdio, {
+      type: 'error',
+      originalType: 'chunk',
+      error: 'Invalid chunk message: seq: seq must be less than total',
+    });
+  });
+
+  it('should validate custom message types against their schema', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+    const handler = vi.fn(async () => {});
+    messaging.registerHandler('tab_closed', handler, z.object({ tabId: z.number() }));
+
+    stdio.pushToStdin({ type: 'tab_closed', tabId: 'seven' });
+    stdio.pushToStdin({ type: 'tab_closed', tabId: 7 });
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ tabId: 7 }));
+    expect(handler).toHaveBeenCalledTimes(1);
+    await expectSent(stdio, {
+      type: 'error',
+      originalType: 'tab_closed',
+      error: 'Invalid tab_closed message: tabId: Expected number, received string',
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NativeMessaging } from '../../src/messaging';
+import { readRecording } from '../../src/traffic-recorder';
+
+describe('NativeMessaging traffic recording', () => {
+  let recordDir: string;
+  let recordFile: string;
+
+  beforeEach(() => {
+    recordDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-host-recording-'));
+    recordFile = path.join(recordDir, 'traffic.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(recordDir, { recursive: true, force: true });
+  });
+
+  it('should not record unless a file is configured', () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout);
+
+    messaging.sendMessage({ type: 'status', data: { ok: true } });
+
+    expect(fs.existsSync(recordFile)).toBe(false);
+  });
+
+  it('should append inbound and outbound frames in order', async () => {
+    const stdio = createMockStdio();
+    const messaging = new NativeMessaging(stdio.stdin, stdio.stdout, { recordFile });
+    messaging.registerHandler('ping', async () => {
+      messaging.sendMessage({ type: 'pong' });
+    });
+
+    stdio.pushToStdin({ type: 'ping' });
+    await vi.waitFor(() => expect(stdio.readFromStdout()).toEqual([{ type: 'pong' }]));
+
+    const frames = readRecording(recordFile);
+    expect(frames.map(frame => [frame.direction, frame.message])).toEqual([
+      ['in', { type: 'ping' }],
+      ['out', { type: 'pong' }],
+    ]);
+  });
+
+  it('should keep frames that are not JSON as raw text', async () => {
+    const stdio = createMockStdio();
+    new NativeMessaging(stdio.stdin, stdio.stdout, { recordFile });
+
+    const frame = Buffer.from('not json', 'utf8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(frame.length, 0);
+    stdio.stdin.push(Buffer.concat([length, frame]));
+
+    await vi.waitFor(() => expect(readRecording(recordFile)[0]).toMatchObject({ direction: 'in', raw: 'not json' }));
+  });
+
+  it('should name the line of a corrupt recording', () => {
+    fs.writeFileSync(recordFile, `${JSON.stringify({ time: new Date().toISOString(), direction: 'in', message: {} })}\n{\n`);
+
+    expect(() => readRecording(recordFile)).toThrow(/traffic\.jsonl:2/);
+  });
+});